@@ -1,102 +1,318 @@
 
-import React, { useState, useRef, useCallback } from 'react';
-import { summarizeArticle, generateSpeech } from './services/geminiService';
-import { decode, decodeAudioData } from './utils/audioUtils';
-import PlayIcon from './components/icons/PlayIcon';
-import PauseIcon from './components/icons/PauseIcon';
+import React, { useState, useRef, useEffect } from 'react';
+import { streamSummary, getGenerationInfo, needsApiKey } from './services/geminiService';
+import { errorMessage } from './services/errors';
+import { BudgetStatus, getBudgetStatus, subscribeToUsage } from './services/telemetry';
+import { getApiKey } from './services/config';
+import { createSpeechQueue } from './services/speechQueue';
+import { getAudioEngine } from './services/audioEngine';
+import { AudioSettings, loadAudioSettings, saveAudioSettings } from './services/audioSettings';
+import { SummaryEntry, saveSummary } from './services/summaryLibrary';
+import { DEFAULT_SUMMARY_OPTIONS } from './services/prompts';
+import { ArticleGrounding, SummaryOptions, VoiceSettings } from './services/providers/types';
+import { loadVoiceSettings, saveVoiceSettings } from './services/voiceSettings';
+import { ExtractedArticle, articleToText, extractFromFile, fetchArticle, isUrl } from './services/articleExtractor';
+import { concatBytes, decodeAudioData } from './utils/audioUtils';
+import { createSentenceSplitter, deriveTitle, splitSentences } from './utils/textUtils';
+import { createSegmentedPlayer } from './utils/segmentedPlayer';
+import { TimedSentence, alignSentence } from './utils/alignment';
 import LoadingIcon from './components/icons/LoadingIcon';
 import ConversationalView from './components/ConversationalView';
+import SummaryPlayer from './components/SummaryPlayer';
+import SummaryExport from './components/SummaryExport';
+import SyncedTranscript from './components/SyncedTranscript';
+import SummaryLibrary from './components/SummaryLibrary';
+import ArticleImport from './components/ArticleImport';
+import SummaryOptionsPanel from './components/SummaryOptionsPanel';
+import DigestView from './components/DigestView';
+import VoiceSettingsPanel from './components/VoiceSettingsPanel';
+import AudioSettingsPanel from './components/AudioSettingsPanel';
+import UsageDashboard from './components/UsageDashboard';
+import ReminderAlerts from './components/ReminderAlerts';
+import ApiKeyPanel from './components/ApiKeyPanel';
+import SettingsIcon from './components/icons/SettingsIcon';
+import KeyIcon from './components/icons/KeyIcon';
+
+/** The part of the streamed summary after the last sentence that already has audio. */
+const pendingSummaryText = (summary: string, sentences: TimedSentence[]): string => {
+    const last = sentences[sentences.length - 1];
+    const end = summary.lastIndexOf(last.text);
+    return end === -1 ? '' : summary.slice(end + last.text.length).trim();
+};
+
+type View = 'summarizer' | 'digest' | 'library' | 'conversation' | 'usage';
 
 const App: React.FC = () => {
-    const [activeView, setActiveView] = useState<'summarizer' | 'conversation'>('summarizer');
+    const [activeView, setActiveView] = useState<View>('summarizer');
+    const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(loadVoiceSettings);
+    const [audioSettings, setAudioSettings] = useState<AudioSettings>(loadAudioSettings);
+    // Views left mounted while hidden, so their audio keeps going when `onTabSwitch` is 'keep'.
+    const [keptViews, setKeptViews] = useState<Set<View>>(() => new Set());
+    const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+    // Without a proxy, a built app has no key until the user enters one, so ask straight away.
+    const [isApiKeyOpen, setIsApiKeyOpen] = useState<boolean>(() => needsApiKey() && !getApiKey());
+    // Set by "Ask about this article"; the conversation tab answers from it until cleared.
+    const [grounding, setGrounding] = useState<ArticleGrounding | null>(null);
+    const [startConversation, setStartConversation] = useState<boolean>(false);
+    const [budgetStatus, setBudgetStatus] = useState<BudgetStatus>(getBudgetStatus);
 
     // State for Summarizer view
     const [articleText, setArticleText] = useState<string>('');
+    const [summaryOptions, setSummaryOptions] = useState<SummaryOptions>(DEFAULT_SUMMARY_OPTIONS);
     const [summaryText, setSummaryText] = useState<string>('');
     const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [isImporting, setIsImporting] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
-    const [isPlaying, setIsPlaying] = useState<boolean>(false);
+    const [generatedAt, setGeneratedAt] = useState<Date>(() => new Date());
+    const [isAudioComplete, setIsAudioComplete] = useState<boolean>(false);
+    // Synthesized sentences with estimated word timings, for the highlighted transcript.
+    const [timedSentences, setTimedSentences] = useState<TimedSentence[]>([]);
+
+    // Raw 24 kHz PCM of each synthesized sentence, kept for export.
+    const pcmChunksRef = useRef<Uint8Array[]>([]);
+    // Whether the first synthesized sentence should start playback automatically.
+    const autoPlayRef = useRef<boolean>(false);
+    // Bumped on every generation so late responses from a previous run are ignored.
+    const generationIdRef = useRef<number>(0);
+
+    const [player] = useState(() => createSegmentedPlayer(
+        () => getAudioEngine().getContext(),
+        () => getAudioEngine().getOutput('summary'),
+    ));
+
+    useEffect(() => {
+        saveVoiceSettings(voiceSettings);
+    }, [voiceSettings]);
+
+    useEffect(() => {
+        saveAudioSettings(audioSettings);
+        getAudioEngine().setVolume(audioSettings.volume);
+    }, [audioSettings]);
+
+    useEffect(() => {
+        getAudioEngine().setOutputDevice(audioSettings.outputDeviceId)
+            .catch(e => console.error("Error selecting the output device: ", e));
+    }, [audioSettings.outputDeviceId]);
+
+    useEffect(() => {
+        if (audioSettings.onTabSwitch === 'pause') {
+            setKeptViews(new Set());
+        }
+    }, [audioSettings.onTabSwitch]);
+
+    useEffect(() => subscribeToUsage(() => setBudgetStatus(getBudgetStatus())), []);
+
+    useEffect(() => {
+        let wasPlaying = false;
+        return player.subscribe(state => {
+            // A manual pause during generation should not be overridden by the next sentence.
+            if (wasPlaying && !state.isPlaying) {
+                autoPlayRef.current = false;
+            }
+            wasPlaying = state.isPlaying;
+        });
+    }, [player]);
+
+    const showView = (view: View) => {
+        if (view === activeView) return;
+        if (audioSettings.onTabSwitch === 'keep') {
+            setKeptViews(prev => new Set(prev).add(activeView));
+        } else if (activeView === 'summarizer') {
+            player.pause();
+        }
+        setActiveView(view);
+    };
+
+    /** Views other than the Summarizer unmount when hidden, unless they are being kept. */
+    const isMounted = (view: View) => activeView === view || keptViews.has(view);
+
+    /** Extracts an article into the textarea and returns its text, or null after reporting an error. */
+    const importArticle = async (load: () => Promise<ExtractedArticle>): Promise<string | null> => {
+        setIsImporting(true);
+        setError(null);
+        try {
+            const text = articleToText(await load());
+            setArticleText(text);
+            return text;
+        } catch (e) {
+            console.error(e);
+            setError(e instanceof TypeError
+                ? 'Could not reach that URL. The site may block cross-origin requests; set ARTICLE_PROXY_URL to fetch through a proxy.'
+                : e instanceof Error ? e.message : 'Could not import that article.');
+            return null;
+        } finally {
+            setIsImporting(false);
+        }
+    };
 
-    const audioDataRef = useRef<string | null>(null);
-    const audioContextRef = useRef<AudioContext | null>(null);
-    const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+    const handleDrop = (e: React.DragEvent<HTMLTextAreaElement>) => {
+        const file = e.dataTransfer.files?.[0];
+        if (!file) return;
+        e.preventDefault();
+        importArticle(() => extractFromFile(file));
+    };
 
     const handleGenerateSummary = async () => {
-        if (!articleText.trim()) {
+        let sourceText = articleText;
+        if (!sourceText.trim()) {
             setError('Please paste a news article first.');
             return;
         }
+        if (isUrl(sourceText)) {
+            const imported = await importArticle(() => fetchArticle(sourceText.trim()));
+            if (!imported) return;
+            sourceText = imported;
+        }
+
+        const generationId = ++generationIdRef.current;
+        const isCurrent = () => generationIdRef.current === generationId;
 
+        const startedAt = new Date();
+        // Captured up front so edits made while this run streams don't mix styles.
+        const options = summaryOptions;
+        const voice = voiceSettings;
+        player.reset();
         setIsLoading(true);
         setError(null);
         setSummaryText('');
-        audioDataRef.current = null;
-        if (isPlaying) {
-            handleTogglePlayback(); // Stop any currently playing audio
-        }
+        setGeneratedAt(startedAt);
+        setIsAudioComplete(false);
+        setTimedSentences([]);
+        pcmChunksRef.current = [];
+        autoPlayRef.current = true;
 
         try {
-            const summary = await summarizeArticle(articleText);
-            setSummaryText(summary);
+            // Created inside the click handler so the browser allows it to start playing.
+            const audioContext = await getAudioEngine().getContext();
+
+            const splitter = createSentenceSplitter();
+            const sentences: string[] = [];
+            const speechQueue = createSpeechQueue({ ...options, voice }, async (pcm, sentence) => {
+                pcmChunksRef.current.push(pcm);
+                sentences.push(sentence);
+                const audioBuffer = await decodeAudioData(pcm, audioContext, 24000, 1);
+                const offset = player.getState().duration;
+                player.append(audioBuffer);
+                setTimedSentences(prev => [...prev, alignSentence(sentence, audioBuffer, offset)]);
+                if (autoPlayRef.current && !player.getState().isPlaying) {
+                    await player.play();
+                }
+            }, () => !isCurrent());
 
-            const audioData = await generateSpeech(summary);
-            audioDataRef.current = audioData;
+            let summary = '';
+            for await (const delta of streamSummary(sourceText, options)) {
+                if (!isCurrent()) return;
+                summary += delta;
+                setSummaryText(summary);
+                splitter.push(delta).forEach(speechQueue.enqueue);
+            }
+            splitter.flush().forEach(speechQueue.enqueue);
 
+            await speechQueue.drain();
+            if (isCurrent()) {
+                setIsAudioComplete(true);
+                saveSummary({
+                    ...getGenerationInfo(),
+                    ...(voice.voice && { voice: voice.voice }),
+                    title: deriveTitle(sourceText),
+                    articleText: sourceText,
+                    summary,
+                    sentences,
+                    audioSegments: pcmChunksRef.current,
+                    sampleRate: 24000,
+                    options,
+                    createdAt: startedAt.getTime(),
+                }).catch(e => console.error("Error saving summary to library: ", e));
+            }
         } catch (e) {
             console.error(e);
-            setError('Failed to generate summary or audio. Please check your API key and try again.');
+            if (isCurrent()) {
+                setError(errorMessage(e, 'Failed to generate the summary or audio. Please try again.'));
+            }
         } finally {
-            setIsLoading(false);
-        }
-    };
-
-    const handleTogglePlayback = useCallback(async () => {
-        if (isPlaying) {
-            if (audioSourceRef.current) {
-                audioSourceRef.current.stop();
+            if (isCurrent()) {
+                autoPlayRef.current = false;
+                player.setComplete(true);
+                setIsLoading(false);
             }
-            setIsPlaying(false);
-            return;
         }
+    };
 
-        if (!audioDataRef.current) return;
-
-        if (!audioContextRef.current) {
-            audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+    const handleAskAboutArticle = async () => {
+        let sourceText = articleText;
+        if (isUrl(sourceText)) {
+            const imported = await importArticle(() => fetchArticle(sourceText.trim()));
+            if (!imported) return;
+            sourceText = imported;
         }
+        player.pause();
+        setGrounding({ title: deriveTitle(sourceText), articleText: sourceText, summary: summaryText || undefined });
+        setStartConversation(true);
+        showView('conversation');
+    };
 
-        const audioContext = audioContextRef.current;
-        
-        if (audioContext.state === 'suspended') {
-            await audioContext.resume();
+    const handleOpenEntry = async (entry: SummaryEntry) => {
+        // Cancel any generation in flight so it doesn't overwrite the entry being opened.
+        const generationId = ++generationIdRef.current;
+        player.reset();
+        setIsLoading(false);
+        setError(null);
+        setArticleText(entry.articleText);
+        if (entry.options) {
+            setSummaryOptions(entry.options);
         }
+        setSummaryText(entry.summary);
+        setGeneratedAt(new Date(entry.createdAt));
+        pcmChunksRef.current = entry.audioSegments;
+        setIsAudioComplete(true);
+        setTimedSentences([]);
+        showView('summarizer');
 
         try {
-            const decodedData = decode(audioDataRef.current);
-            const audioBuffer = await decodeAudioData(decodedData, audioContext, 24000, 1);
-            
-            const source = audioContext.createBufferSource();
-            source.buffer = audioBuffer;
-            source.connect(audioContext.destination);
-            
-            source.onended = () => {
-                setIsPlaying(false);
-                audioSourceRef.current = null;
-            };
-
-            source.start();
-            audioSourceRef.current = source;
-            setIsPlaying(true);
-        } catch(e) {
+            const audioContext = await getAudioEngine().getContext();
+            // Older entries don't store their sentences; re-splitting gives the same ones unless the splitter changed.
+            const sentences = entry.sentences ?? splitSentences(entry.summary);
+            const canAlign = sentences.length === entry.audioSegments.length;
+            const aligned: TimedSentence[] = [];
+            for (const [index, segment] of entry.audioSegments.entries()) {
+                const audioBuffer = await decodeAudioData(segment, audioContext, entry.sampleRate, 1);
+                if (generationIdRef.current !== generationId) return;
+                if (canAlign) {
+                    aligned.push(alignSentence(sentences[index], audioBuffer, player.getState().duration));
+                }
+                player.append(audioBuffer);
+            }
+            setTimedSentences(aligned);
+            player.setComplete(true);
+            await player.play();
+        } catch (e) {
             console.error("Error playing audio: ", e);
-            setError("Could not play the generated audio.");
+            setError("Could not play the saved audio.");
         }
-    }, [isPlaying]);
+    };
 
     return (
         <div className="min-h-screen bg-gray-900 text-gray-100 flex flex-col items-center p-4 sm:p-6 lg:p-8 font-sans">
             <div className="w-full max-w-3xl mx-auto">
-                <header className="text-center mb-8">
+                <header className="relative text-center mb-8">
+                    {needsApiKey() && (
+                        <button
+                            onClick={() => setIsApiKeyOpen(open => !open)}
+                            className="absolute right-12 top-0 p-2 rounded-full hover:bg-gray-800 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                            aria-label="API key"
+                            aria-expanded={isApiKeyOpen}
+                        >
+                            <KeyIcon />
+                        </button>
+                    )}
+                    <button
+                        onClick={() => setIsSettingsOpen(open => !open)}
+                        className="absolute right-0 top-0 p-2 rounded-full hover:bg-gray-800 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        aria-label="Voice settings"
+                        aria-expanded={isSettingsOpen}
+                    >
+                        <SettingsIcon />
+                    </button>
                     <h1 className="text-4xl sm:text-5xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-purple-500">
                         AI Companion
                     </h1>
@@ -105,9 +321,17 @@ const App: React.FC = () => {
                     </p>
                 </header>
 
-                <div className="flex justify-center border-b border-gray-700 mb-6">
+                {isApiKeyOpen && <ApiKeyPanel />}
+                {isSettingsOpen && (
+                    <>
+                        <VoiceSettingsPanel settings={voiceSettings} onChange={setVoiceSettings} />
+                        <AudioSettingsPanel settings={audioSettings} onChange={setAudioSettings} />
+                    </>
+                )}
+
+                <div className="flex flex-wrap justify-center border-b border-gray-700 mb-6">
                     <button
-                        onClick={() => setActiveView('summarizer')}
+                        onClick={() => showView('summarizer')}
                         className={`px-6 py-3 text-lg font-medium transition-colors duration-200 ${
                             activeView === 'summarizer'
                                 ? 'border-b-2 border-purple-500 text-white'
@@ -118,7 +342,29 @@ const App: React.FC = () => {
                         Summarizer
                     </button>
                     <button
-                        onClick={() => setActiveView('conversation')}
+                        onClick={() => showView('digest')}
+                        className={`px-6 py-3 text-lg font-medium transition-colors duration-200 ${
+                            activeView === 'digest'
+                                ? 'border-b-2 border-purple-500 text-white'
+                                : 'text-gray-400 hover:text-white'
+                        }`}
+                        aria-current={activeView === 'digest' ? 'page' : undefined}
+                    >
+                        Digest
+                    </button>
+                    <button
+                        onClick={() => showView('library')}
+                        className={`px-6 py-3 text-lg font-medium transition-colors duration-200 ${
+                            activeView === 'library'
+                                ? 'border-b-2 border-purple-500 text-white'
+                                : 'text-gray-400 hover:text-white'
+                        }`}
+                        aria-current={activeView === 'library' ? 'page' : undefined}
+                    >
+                        Library
+                    </button>
+                    <button
+                        onClick={() => showView('conversation')}
                         className={`px-6 py-3 text-lg font-medium transition-colors duration-200 ${
                             activeView === 'conversation'
                                 ? 'border-b-2 border-purple-500 text-white'
@@ -128,28 +374,71 @@ const App: React.FC = () => {
                     >
                         Live Conversation
                     </button>
+                    <button
+                        onClick={() => showView('usage')}
+                        className={`px-6 py-3 text-lg font-medium transition-colors duration-200 ${
+                            activeView === 'usage'
+                                ? 'border-b-2 border-purple-500 text-white'
+                                : 'text-gray-400 hover:text-white'
+                        }`}
+                        aria-current={activeView === 'usage' ? 'page' : undefined}
+                    >
+                        Usage
+                    </button>
                 </div>
 
+                {budgetStatus.level !== 'ok' && (
+                    <div
+                        role="status"
+                        className={`p-3 mb-6 rounded-lg text-center text-sm border ${
+                            budgetStatus.level === 'exceeded'
+                                ? 'bg-red-900/50 border-red-500 text-red-300'
+                                : 'bg-yellow-900/40 border-yellow-500 text-yellow-200'
+                        }`}
+                    >
+                        {budgetStatus.level === 'exceeded'
+                            ? `Today's estimated spend of $${budgetStatus.spentUsd.toFixed(2)} has reached your $${budgetStatus.settings.capAtUsd.toFixed(2)} cap, so new requests are blocked until tomorrow.`
+                            : `Today's estimated spend is $${budgetStatus.spentUsd.toFixed(2)}, past your $${budgetStatus.settings.warnAtUsd.toFixed(2)} warning.`}
+                        {' '}
+                        {activeView !== 'usage' && (
+                            <button onClick={() => showView('usage')} className="underline hover:text-white">
+                                See usage
+                            </button>
+                        )}
+                    </div>
+                )}
+
+                <ReminderAlerts />
+
                 {activeView === 'summarizer' && (
                      <main className="bg-gray-800 rounded-2xl shadow-2xl p-6 sm:p-8 space-y-6">
                         <div className="flex flex-col space-y-4">
                             <label htmlFor="article-input" className="text-lg font-semibold text-gray-300">
-                                Paste your article here
+                                Paste an article or its URL, or drop a file
                             </label>
                             <textarea
                                 id="article-input"
                                 rows={10}
                                 value={articleText}
                                 onChange={(e) => setArticleText(e.target.value)}
-                                placeholder="Start by pasting the full text of a news article..."
-                                className="w-full p-4 bg-gray-900 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors duration-200 resize-y text-gray-200"
+                                onDragOver={(e) => e.preventDefault()}
+                                onDrop={handleDrop}
+                                disabled={isImporting}
+                                placeholder="Start by pasting the full text of a news article, or drop an HTML, PDF or .txt file here..."
+                                className="w-full p-4 bg-gray-900 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors duration-200 resize-y text-gray-200 disabled:opacity-50"
                             />
+                            <ArticleImport
+                                onFetchUrl={(url) => importArticle(() => fetchArticle(url))}
+                                onFile={(file) => importArticle(() => extractFromFile(file))}
+                                disabled={isImporting || isLoading}
+                            />
+                            <SummaryOptionsPanel options={summaryOptions} onChange={setSummaryOptions} disabled={isLoading} />
                         </div>
 
-                        <div className="flex justify-center">
+                        <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
                             <button
                                 onClick={handleGenerateSummary}
-                                disabled={isLoading}
+                                disabled={isLoading || isImporting}
                                 className="flex items-center justify-center w-full sm:w-auto px-8 py-3 text-lg font-bold text-white bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg hover:from-blue-600 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transform hover:scale-105 transition-transform duration-200 shadow-lg"
                             >
                                 {isLoading ? (
@@ -161,6 +450,13 @@ const App: React.FC = () => {
                                     'Generate Audio Summary'
                                 )}
                             </button>
+                            <button
+                                onClick={handleAskAboutArticle}
+                                disabled={!articleText.trim() || isLoading || isImporting}
+                                className="w-full sm:w-auto px-6 py-3 font-semibold text-purple-200 border border-purple-500 rounded-lg hover:bg-purple-900/40 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                            >
+                                Ask about this article
+                            </button>
                         </div>
 
                         {error && (
@@ -169,25 +465,55 @@ const App: React.FC = () => {
                             </div>
                         )}
 
-                        {summaryText && !isLoading && (
+                        {summaryText && (
                             <div className="bg-gray-900/50 p-6 rounded-lg space-y-4 animate-fade-in">
-                                <h2 className="text-2xl font-bold text-blue-300">Your Summary</h2>
-                                <div className="flex items-center space-x-4">
-                                    <button
-                                        onClick={handleTogglePlayback}
-                                        className="p-3 bg-blue-600 rounded-full hover:bg-blue-700 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-blue-500"
-                                    >
-                                        <span className="sr-only">{isPlaying ? 'Pause' : 'Play'}</span>
-                                        {isPlaying ? <PauseIcon /> : <PlayIcon />}
-                                    </button>
-                                    <p className="text-gray-300 flex-1">{summaryText}</p>
+                                <div className="flex flex-wrap items-center justify-between gap-2">
+                                    <h2 className="text-2xl font-bold text-blue-300">Your Summary</h2>
+                                    <SummaryExport
+                                        document={{ title: deriveTitle(articleText), summary: summaryText, date: generatedAt }}
+                                        getPcm={() => pcmChunksRef.current.length > 0 ? concatBytes(pcmChunksRef.current) : null}
+                                        isAudioReady={isAudioComplete}
+                                        onError={setError}
+                                    />
                                 </div>
+                                <SummaryPlayer player={player} onError={setError} />
+                                {timedSentences.length > 0 ? (
+                                    <SyncedTranscript
+                                        player={player}
+                                        sentences={timedSentences}
+                                        pendingText={pendingSummaryText(summaryText, timedSentences)}
+                                    />
+                                ) : (
+                                    <p className="text-gray-300 whitespace-pre-line">{summaryText}</p>
+                                )}
                             </div>
                         )}
                     </main>
                 )}
 
-                {activeView === 'conversation' && <ConversationalView />}
+                {isMounted('digest') && (
+                    <div hidden={activeView !== 'digest'}>
+                        <DigestView summaryOptions={summaryOptions} voiceSettings={voiceSettings} />
+                    </div>
+                )}
+
+                {activeView === 'library' && <SummaryLibrary onOpen={handleOpenEntry} />}
+
+                {isMounted('conversation') && (
+                    <div hidden={activeView !== 'conversation'}>
+                        <ConversationalView
+                            voiceSettings={voiceSettings}
+                            articleText={articleText}
+                            summaryOptions={summaryOptions}
+                            grounding={grounding}
+                            onClearGrounding={() => setGrounding(null)}
+                            autoStart={startConversation}
+                            onAutoStarted={() => setStartConversation(false)}
+                        />
+                    </div>
+                )}
+
+                {activeView === 'usage' && <UsageDashboard />}
 
                 <footer className="text-center mt-8 text-gray-500 text-sm">
                     <p>Powered by Google Gemini</p>
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { checkApiKey } from '../services/geminiService';
+import { errorMessage } from '../services/errors';
+import { getApiKey, getStoredApiKey, setStoredApiKey } from '../services/config';
+import LoadingIcon from './icons/LoadingIcon';
+
+const API_KEY_PAGE = 'https://aistudio.google.com/app/apikey';
+
+/** Lets the user supply their own Gemini API key for this tab, checked before it is saved. */
+const ApiKeyPanel: React.FC = () => {
+    const [draft, setDraft] = useState('');
+    const [isChecking, setIsChecking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [hasStoredKey, setHasStoredKey] = useState(() => !!getStoredApiKey());
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const apiKey = draft.trim();
+        if (!apiKey) return;
+        setIsChecking(true);
+        setError(null);
+        setNotice(null);
+        try {
+            await checkApiKey(apiKey);
+            setStoredApiKey(apiKey);
+            setHasStoredKey(true);
+            setDraft('');
+            setNotice('Key checked and saved for this tab.');
+        } catch (err) {
+            console.error(err);
+            setError(errorMessage(err, 'Could not check that key. Please try again.'));
+        } finally {
+            setIsChecking(false);
+        }
+    };
+
+    const handleForget = () => {
+        setStoredApiKey(null);
+        setHasStoredKey(false);
+        setError(null);
+        setNotice('Key forgotten.');
+    };
+
+    const status = hasStoredKey
+        ? 'Using the key you entered for this tab.'
+        : getApiKey()
+            ? 'Using the development key from .env.local.'
+            : 'No key set. Summaries and conversations need one.';
+
+    return (
+        <section className="bg-gray-800 rounded-2xl shadow-2xl p-6 mb-6 space-y-4" aria-labelledby="api-key-heading">
+            <h2 id="api-key-heading" className="text-xl font-bold text-blue-300">Gemini API key</h2>
+            <p className="text-sm text-gray-400">
+                Kept in this tab&apos;s session storage and sent only to Google; it is forgotten when the tab closes.{' '}
+                <a href={API_KEY_PAGE} target="_blank" rel="noreferrer" className="text-purple-300 underline hover:text-purple-200">
+                    Get a key
+                </a>
+            </p>
+            <p className="text-sm text-gray-300" aria-live="polite">{status}</p>
+
+            <form onSubmit={handleSave} className="flex flex-col sm:flex-row gap-2">
+                <label htmlFor="api-key-input" className="sr-only">API key</label>
+                <input
+                    id="api-key-input"
+                    type="password"
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    autoComplete="off"
+                    spellCheck={false}
+                    placeholder="Paste your API key"
+                    disabled={isChecking}
+                    className="flex-1 p-2 bg-gray-900 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-200 disabled:opacity-50"
+                />
+                <button
+                    type="submit"
+                    disabled={isChecking || !draft.trim()}
+                    className="flex items-center justify-center px-4 py-2 font-medium bg-purple-600 rounded-lg hover:bg-purple-700 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isChecking ? <><LoadingIcon />Checking...</> : 'Save key'}
+                </button>
+                {hasStoredKey && (
+                    <button
+                        type="button"
+                        onClick={handleForget}
+                        disabled={isChecking}
+                        className="px-4 py-2 font-medium bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors duration-200 disabled:opacity-50"
+                    >
+                        Forget key
+                    </button>
+                )}
+            </form>
+
+            {notice && <p className="text-sm text-green-400">{notice}</p>}
+            {error && (
+                <div className="p-3 bg-red-900/50 border border-red-500 text-red-300 rounded-lg text-center text-sm">
+                    {error}
+                </div>
+            )}
+        </section>
+    );
+};
+
+export default ApiKeyPanel;
@@ -0,0 +1,59 @@
+import React, { useState, useRef } from 'react';
+
+type ArticleImportProps = {
+    onFetchUrl: (url: string) => void;
+    onFile: (file: File) => void;
+    disabled: boolean;
+};
+
+const ArticleImport: React.FC<ArticleImportProps> = ({ onFetchUrl, onFile, disabled }) => {
+    const [url, setUrl] = useState('');
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (url.trim()) onFetchUrl(url.trim());
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2">
+            <label htmlFor="article-url" className="sr-only">Article URL</label>
+            <input
+                id="article-url"
+                type="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://example.com/news/story"
+                className="flex-1 p-2 bg-gray-900 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-200"
+            />
+            <button
+                type="submit"
+                disabled={disabled || !url.trim()}
+                className="px-4 py-2 font-medium bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                Fetch article
+            </button>
+            <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={disabled}
+                className="px-4 py-2 font-medium bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                Upload file
+            </button>
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept=".html,.htm,.xhtml,.pdf,.txt,.md,text/html,application/pdf,text/plain"
+                className="hidden"
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) onFile(file);
+                    e.target.value = '';
+                }}
+            />
+        </form>
+    );
+};
+
+export default ArticleImport;
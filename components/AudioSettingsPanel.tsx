@@ -0,0 +1,92 @@
+import React, { useState, useEffect } from 'react';
+import { AudioSettings, TabSwitchBehavior } from '../services/audioSettings';
+import { getAudioEngine, listOutputDevices } from '../services/audioEngine';
+
+const TAB_SWITCH_OPTIONS: { value: TabSwitchBehavior; label: string }[] = [
+    { value: 'pause', label: 'Pause or stop it' },
+    { value: 'keep', label: 'Keep playing in the background' },
+];
+
+type AudioSettingsPanelProps = {
+    settings: AudioSettings;
+    onChange: (settings: AudioSettings) => void;
+};
+
+const AudioSettingsPanel: React.FC<AudioSettingsPanelProps> = ({ settings, onChange }) => {
+    const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+    const canChooseDevice = getAudioEngine().supportsOutputSelection();
+
+    useEffect(() => {
+        if (!canChooseDevice) return;
+        let isCurrent = true;
+        const refresh = () => {
+            listOutputDevices()
+                .then(found => { if (isCurrent) setDevices(found); })
+                .catch(e => console.error("Error listing audio outputs: ", e));
+        };
+        refresh();
+        navigator.mediaDevices?.addEventListener?.('devicechange', refresh);
+        return () => {
+            isCurrent = false;
+            navigator.mediaDevices?.removeEventListener?.('devicechange', refresh);
+        };
+    }, [canChooseDevice]);
+
+    const selectClass = "bg-gray-900 border-2 border-gray-700 rounded-lg px-2 py-1 text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+    return (
+        <section className="bg-gray-800 rounded-2xl shadow-2xl p-6 mb-6 space-y-4" aria-labelledby="audio-settings-heading">
+            <h2 id="audio-settings-heading" className="text-xl font-bold text-blue-300">Audio output</h2>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm text-gray-300">
+                <label className="flex flex-col gap-1">
+                    Volume
+                    <input
+                        type="range"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        value={settings.volume}
+                        onChange={(e) => onChange({ ...settings, volume: Number(e.target.value) })}
+                        className="accent-purple-500"
+                    />
+                </label>
+                <label className="flex flex-col gap-1">
+                    When you switch tabs
+                    <select
+                        value={settings.onTabSwitch}
+                        onChange={(e) => onChange({ ...settings, onTabSwitch: e.target.value as TabSwitchBehavior })}
+                        className={selectClass}
+                    >
+                        {TAB_SWITCH_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                </label>
+                {canChooseDevice && (
+                    <label className="flex flex-col gap-1 sm:col-span-2">
+                        Output device
+                        <select
+                            value={settings.outputDeviceId}
+                            onChange={(e) => onChange({ ...settings, outputDeviceId: e.target.value })}
+                            className={selectClass}
+                        >
+                            <option value="">System default</option>
+                            {devices.map((device, index) => (
+                                <option key={device.deviceId} value={device.deviceId}>
+                                    {device.label || `Output ${index + 1}`}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+            </div>
+            <p className="text-xs text-gray-400">
+                Live replies lower the volume of anything else that is playing.
+                {canChooseDevice && ' Device names appear once the microphone has been allowed.'}
+            </p>
+        </section>
+    );
+};
+
+export default AudioSettingsPanel;
@@ -0,0 +1,97 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+    ConversationRecord,
+    conversationTitle,
+    deleteConversation,
+    listConversations,
+    searchConversations,
+} from '../services/conversationLibrary';
+
+type ConversationHistoryProps = {
+    selectedId: string | null;
+    onSelect: (record: ConversationRecord) => void;
+    onDeleted: (id: string) => void;
+    /** Changes whenever a session is saved, so the list reloads. */
+    refreshKey: number;
+};
+
+const ConversationHistory: React.FC<ConversationHistoryProps> = ({ selectedId, onSelect, onDeleted, refreshKey }) => {
+    const [records, setRecords] = useState<ConversationRecord[]>([]);
+    const [query, setQuery] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        listConversations()
+            .then(loaded => {
+                if (!cancelled) setRecords(loaded);
+            })
+            .catch(e => {
+                console.error(e);
+                if (!cancelled) setError('Could not load past conversations.');
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [refreshKey]);
+
+    const visibleRecords = useMemo(() => searchConversations(records, query), [records, query]);
+
+    const handleDelete = async (record: ConversationRecord) => {
+        if (!window.confirm('Delete this conversation?')) return;
+        try {
+            await deleteConversation(record.id);
+            setRecords(prev => prev.filter(item => item.id !== record.id));
+            onDeleted(record.id);
+        } catch (e) {
+            console.error(e);
+            setError('Could not delete the conversation.');
+        }
+    };
+
+    return (
+        <aside className="md:w-64 flex-shrink-0 flex flex-col gap-3" aria-label="Past conversations">
+            <h2 className="text-lg font-semibold text-gray-300">Sessions</h2>
+            <label htmlFor="conversation-search" className="sr-only">Search conversations</label>
+            <input
+                id="conversation-search"
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search transcripts..."
+                className="p-2 bg-gray-900 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-200 text-sm"
+            />
+            {error && <p className="text-sm text-red-300">{error}</p>}
+            <ul className="space-y-1 overflow-y-auto max-h-96">
+                {visibleRecords.length === 0 && (
+                    <li className="text-sm text-gray-500">{records.length === 0 ? 'No saved sessions yet.' : 'No matches.'}</li>
+                )}
+                {visibleRecords.map(record => (
+                    <li key={record.id} className="group flex items-start gap-1">
+                        <button
+                            onClick={() => onSelect(record)}
+                            className={`flex-1 min-w-0 text-left p-2 rounded-lg transition-colors duration-200 ${
+                                record.id === selectedId ? 'bg-purple-900/40 border border-purple-500' : 'hover:bg-gray-700/50 border border-transparent'
+                            }`}
+                            aria-current={record.id === selectedId ? 'true' : undefined}
+                        >
+                            <span className="block text-sm text-gray-200 truncate">{conversationTitle(record)}</span>
+                            <span className="block text-xs text-gray-500">
+                                {new Date(record.startedAt).toLocaleString()} · {record.transcripts.length} turns
+                            </span>
+                        </button>
+                        <button
+                            onClick={() => handleDelete(record)}
+                            className="p-2 text-xs text-gray-500 hover:text-red-300 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                            aria-label={`Delete conversation "${conversationTitle(record)}"`}
+                        >
+                            ✕
+                        </button>
+                    </li>
+                ))}
+            </ul>
+        </aside>
+    );
+};
+
+export default ConversationHistory;
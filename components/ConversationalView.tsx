@@ -1,185 +1,389 @@
 
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, Blob, LiveSession } from '@google/genai';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { getDefaultVoices, getLiveModel } from '../services/geminiService';
+import { UnsupportedBrowserError, errorMessage, toMicrophoneError } from '../services/errors';
+import { LiveConnection, LiveConnectionState, LiveConnectionStatus, createLiveConnection } from '../services/liveConnection';
+import { ConversationRecord, TranscriptEntry, saveConversation } from '../services/conversationLibrary';
+import { ArticleGrounding, AudioChunk, LiveEvent, LiveToolCall, SummaryOptions, VoiceSettings } from '../services/providers/types';
+import { DEFAULT_LIVE_TOOLS, createToolRegistry } from '../services/liveTools';
+import { startMicCapture, MicCapture } from '../services/micCapture';
+import { scheduleReminder } from '../services/reminders';
+import { getAudioEngine } from '../services/audioEngine';
 import { decode, decodeAudioData, encode } from '../utils/audioUtils';
+import { appendToolCall, appendTranscription, completeToolCall } from '../utils/transcripts';
+import { RecordingLayout, SessionRecorder, createSessionRecorder } from '../utils/sessionRecorder';
+import { downloadBlob } from '../utils/downloadUtils';
+import { createQuoteFinder } from '../utils/quoteMatching';
+import { createVoiceActivityDetector, levelToMeter, measureLevel } from '../utils/vad';
+import ConversationHistory from './ConversationHistory';
+import TranscriptExport from './TranscriptExport';
+import GroundedArticle, { TextRange } from './GroundedArticle';
+import QuotedAnswer from './QuotedAnswer';
+import InputLevelMeter from './InputLevelMeter';
 import MicrophoneIcon from './icons/MicrophoneIcon';
 import StopIcon from './icons/StopIcon';
 import LoadingIcon from './icons/LoadingIcon';
+import MicrophoneOffIcon from './icons/MicrophoneOffIcon';
 
-const API_KEY = process.env.API_KEY;
-if (!API_KEY) {
-    throw new Error("API_KEY environment variable not set");
-}
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+// Size of each audio message sent to the model.
+const MIC_CHUNK_MS = 100;
 
-type TranscriptEntry = {
-    speaker: 'user' | 'model';
-    text: string;
-    isFinal: boolean;
+type InputMode = 'always' | 'push-to-talk' | 'voice-activity';
+
+const INPUT_MODES: { value: InputMode; label: string }[] = [
+    { value: 'always', label: 'Always on' },
+    { value: 'push-to-talk', label: 'Push to talk' },
+    { value: 'voice-activity', label: 'Voice activated' },
+];
+
+const TOOL_STATUS_STYLES = {
+    running: { icon: '…', className: 'text-gray-400' },
+    done: { icon: '✓', className: 'text-green-400' },
+    failed: { icon: '✗', className: 'text-red-400' },
 };
 
-const ConversationalView: React.FC = () => {
+const CONNECTION_BADGES: Record<LiveConnectionStatus, { label: string; className: string }> = {
+    connecting: { label: 'Connecting', className: 'bg-gray-500' },
+    connected: { label: 'Connected', className: 'bg-green-500' },
+    reconnecting: { label: 'Reconnecting', className: 'bg-yellow-400 animate-pulse' },
+    degraded: { label: 'Degraded', className: 'bg-yellow-500' },
+    failed: { label: 'Failed', className: 'bg-red-500' },
+};
+
+type ConversationalViewProps = {
+    /** Applied when a session starts; changes take effect on the next session. */
+    voiceSettings: VoiceSettings;
+    /** The Summarizer's article, which the `summarize_article` tool reads. */
+    articleText: string;
+    summaryOptions: SummaryOptions;
+    /** When set, sessions answer questions about this article. */
+    grounding?: ArticleGrounding | null;
+    onClearGrounding?: () => void;
+    /** Starts a session as soon as the view is shown; `onAutoStarted` should clear it. */
+    autoStart?: boolean;
+    onAutoStarted?: () => void;
+};
+
+const ConversationalView: React.FC<ConversationalViewProps> = ({
+    voiceSettings,
+    articleText,
+    summaryOptions,
+    grounding,
+    onClearGrounding,
+    autoStart,
+    onAutoStarted,
+}) => {
     const [isConnecting, setIsConnecting] = useState(false);
     const [isActive, setIsActive] = useState(false);
     const [statusMessage, setStatusMessage] = useState('Press the microphone to start');
     const [transcripts, setTranscripts] = useState<TranscriptEntry[]>([]);
     const [error, setError] = useState<string | null>(null);
+    // A past session opened from the sidebar; the live view is shown when null.
+    const [viewedRecord, setViewedRecord] = useState<ConversationRecord | null>(null);
+    const [lastRecord, setLastRecord] = useState<ConversationRecord | null>(null);
+    const [historyVersion, setHistoryVersion] = useState(0);
+    const [connectionStatus, setConnectionStatus] = useState<LiveConnectionStatus | null>(null);
+    // The article the live transcript is about, kept after the session ends.
+    const [liveArticle, setLiveArticle] = useState<ConversationRecord['article'] | null>(null);
+    const [activeQuote, setActiveQuote] = useState<TextRange | null>(null);
+    const [inputMode, setInputMode] = useState<InputMode>('always');
+    const [isMuted, setIsMuted] = useState(false);
+    // Whether push-to-talk is held, by Space or the button.
+    const [isTalking, setIsTalking] = useState(false);
+    const [inputLevel, setInputLevel] = useState(0);
+    const [isSendingAudio, setIsSendingAudio] = useState(false);
+    const [draft, setDraft] = useState('');
+    // Replies are shown as text only; the native-audio model still speaks, but nothing is played.
+    const [isTextOnly, setIsTextOnly] = useState(false);
+    const [isRecordingEnabled, setIsRecordingEnabled] = useState(false);
+    const [recordingLayout, setRecordingLayout] = useState<RecordingLayout>('stereo');
+    // The finished recording of the last session, with a marker per transcript entry.
+    const [recording, setRecording] = useState<{ recorder: SessionRecorder; markers: { atMs: number; label: string }[]; startedAt: number } | null>(null);
 
-    const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
-    const inputAudioContextRef = useRef<AudioContext | null>(null);
-    const outputAudioContextRef = useRef<AudioContext | null>(null);
-    const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+    const connectionRef = useRef<LiveConnection | null>(null);
+    const micCaptureRef = useRef<MicCapture | null>(null);
+    // Mic chunks are only forwarded once the session has opened.
+    const isStreamingRef = useRef<boolean>(false);
     const mediaStreamRef = useRef<MediaStream | null>(null);
-    const audioSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-    const nextStartTimeRef = useRef<number>(0);
+    // Replies duck the Summarizer and Digest if they were left playing in the background.
+    const [replyQueue] = useState(() => getAudioEngine().createQueue('live', {
+        ducksOthers: true,
+        onIdle: () => {
+            if (isStreamingRef.current) setStatusMessage('Listening...');
+        },
+    }));
+    // Source of truth for the transcript, so it can be saved from callbacks without stale state.
+    const transcriptsRef = useRef<TranscriptEntry[]>([]);
+    const sessionRecordRef = useRef<Omit<ConversationRecord, 'transcripts'> | null>(null);
+    const recorderRef = useRef<SessionRecorder | null>(null);
+    const articleTextRef = useRef(articleText);
+    articleTextRef.current = articleText;
+    // Read from the mic callback, which outlives the render that created it.
+    const inputModeRef = useRef(inputMode);
+    inputModeRef.current = inputMode;
+    const isMutedRef = useRef(isMuted);
+    isMutedRef.current = isMuted;
+    const isTalkingRef = useRef(isTalking);
+    isTalkingRef.current = isTalking;
+    const wasSendingRef = useRef(false);
+    const isTextOnlyRef = useRef(isTextOnly);
+    isTextOnlyRef.current = isTextOnly;
+    const [vad] = useState(() => createVoiceActivityDetector({ chunkMs: MIC_CHUNK_MS }));
+
+    const updateTranscripts = useCallback((update: (prev: TranscriptEntry[]) => TranscriptEntry[]) => {
+        transcriptsRef.current = update(transcriptsRef.current);
+        setTranscripts(transcriptsRef.current);
+    }, []);
+
+    const persistSession = useCallback((ended: boolean) => {
+        const session = sessionRecordRef.current;
+        if (!session || transcriptsRef.current.length === 0) return;
+        const record: ConversationRecord = {
+            ...session,
+            endedAt: ended ? Date.now() : undefined,
+            transcripts: transcriptsRef.current,
+        };
+        saveConversation(record)
+            .then(() => {
+                if (ended) {
+                    setLastRecord(record);
+                    setHistoryVersion(version => version + 1);
+                }
+            })
+            .catch(e => console.error("Error saving conversation: ", e));
+    }, []);
 
     const cleanup = useCallback(() => {
+        persistSession(true);
+        const recorder = recorderRef.current;
+        if (recorder?.hasAudio() && sessionRecordRef.current) {
+            setRecording({
+                recorder,
+                startedAt: sessionRecordRef.current.startedAt,
+                markers: transcriptsRef.current.filter(entry => entry.speaker !== 'tool').map(entry => ({
+                    atMs: entry.startMs,
+                    label: `${entry.speaker === 'user' ? 'You' : 'AI'}: ${entry.text.trim().slice(0, 80)}`,
+                })),
+            });
+        }
+        recorderRef.current = null;
+        sessionRecordRef.current = null;
+
         setIsConnecting(false);
         setIsActive(false);
 
         mediaStreamRef.current?.getTracks().forEach(track => track.stop());
         mediaStreamRef.current = null;
 
-        scriptProcessorRef.current?.disconnect();
-        scriptProcessorRef.current = null;
+        isStreamingRef.current = false;
+        wasSendingRef.current = false;
+        setIsSendingAudio(false);
+        setInputLevel(0);
+        setIsTalking(false);
+        vad.reset();
+        micCaptureRef.current?.stop();
+        micCaptureRef.current = null;
 
-        inputAudioContextRef.current?.close();
-        outputAudioContextRef.current?.close();
-        inputAudioContextRef.current = null;
-        outputAudioContextRef.current = null;
+        replyQueue.flush();
 
-        audioSourcesRef.current.forEach(source => source.stop());
-        audioSourcesRef.current.clear();
-        nextStartTimeRef.current = 0;
+        connectionRef.current?.close();
+        connectionRef.current = null;
+    }, [persistSession, vad, replyQueue]);
 
-        sessionPromiseRef.current?.then(session => session.close()).catch(console.error);
-        sessionPromiseRef.current = null;
-    }, []);
+    /** The part of a mic chunk to send under the current input mode, with any pre-roll. */
+    const gateInput = (pcm: Int16Array): Int16Array[] => {
+        if (isMutedRef.current) return [];
+        switch (inputModeRef.current) {
+            case 'push-to-talk':
+                return isTalkingRef.current ? [pcm] : [];
+            case 'voice-activity':
+                return vad.process(pcm).chunks;
+            default:
+                return [pcm];
+        }
+    };
+
+    const handleSendText = (e: React.FormEvent) => {
+        e.preventDefault();
+        const text = draft.trim();
+        const session = sessionRecordRef.current;
+        if (!text || !session || !connectionRef.current) return;
+        const atMs = Date.now() - session.startedAt;
+        updateTranscripts(prev => [...prev, { speaker: 'user', text, isFinal: true, startMs: atMs, endMs: atMs }]);
+        connectionRef.current.sendText(text);
+        setDraft('');
+    };
+
+    const handleTextOnlyChange = (textOnly: boolean) => {
+        if (textOnly) {
+            recorderRef.current?.truncateModelAudio(Date.now() - (sessionRecordRef.current?.startedAt ?? Date.now()));
+            replyQueue.flush();
+            if (isActive) setStatusMessage('Listening...');
+        }
+        setIsTextOnly(textOnly);
+    };
+
+    const handleInputModeChange = (mode: InputMode) => {
+        vad.reset();
+        setIsTalking(false);
+        setInputMode(mode);
+    };
 
     const handleToggleConversation = async () => {
         if (isActive) {
             cleanup();
+            setConnectionStatus(null);
             setStatusMessage('Session ended. Press the microphone to start again.');
             return;
         }
 
         setIsConnecting(true);
+        setConnectionStatus(null);
         setError(null);
+        setViewedRecord(null);
+        setLastRecord(null);
+        setRecording(null);
+        setActiveQuote(null);
+        setLiveArticle(grounding ? { title: grounding.title, text: grounding.articleText } : null);
+        transcriptsRef.current = [];
         setTranscripts([]);
-        setStatusMessage('Connecting to Gemini and requesting microphone...');
+        setStatusMessage('Connecting and requesting microphone...');
 
         try {
+            if (!navigator.mediaDevices?.getUserMedia) {
+                throw new UnsupportedBrowserError('microphone access');
+            }
             const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
             mediaStreamRef.current = stream;
 
-            inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-            outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-           
-            sessionPromiseRef.current = ai.live.connect({
-                model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    inputAudioTranscription: {},
-                    outputAudioTranscription: {},
-                    speechConfig: {
-                        voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
-                    },
+            const startedAt = Date.now();
+            const elapsedMs = () => Date.now() - startedAt;
+            sessionRecordRef.current = {
+                id: crypto.randomUUID(),
+                startedAt,
+                voice: voiceSettings.voice ?? getDefaultVoices().live,
+                model: getLiveModel(),
+                article: grounding ? { title: grounding.title, text: grounding.articleText } : undefined,
+            };
+            recorderRef.current = isRecordingEnabled ? createSessionRecorder(16000, 24000) : null;
+
+            const tools = createToolRegistry(DEFAULT_LIVE_TOOLS, {
+                getArticleText: () => articleTextRef.current,
+                summaryOptions,
+                // Shown by the app when they go off, even if this view has unmounted by then.
+                scheduleTimer: scheduleReminder,
+            });
+            const runToolCalls = async (calls: LiveToolCall[]) => {
+                calls.forEach(call => updateTranscripts(prev => appendToolCall(prev, call, elapsedMs())));
+                const results = await Promise.all(calls.map(async call => {
+                    const result = await tools.execute(call);
+                    updateTranscripts(prev => completeToolCall(prev, call.id, result.response, elapsedMs()));
+                    return result;
+                }));
+                connectionRef.current?.sendToolResponse(results);
+            };
+
+            // Started inside the click handler so the browser allows it to play.
+            const outputContext = await getAudioEngine().getContext();
+            micCaptureRef.current = await startMicCapture({
+                stream,
+                chunkMs: MIC_CHUNK_MS,
+                onChunk: (pcm) => {
+                    setInputLevel(isMutedRef.current ? 0 : levelToMeter(measureLevel(pcm)));
+                    if (!isStreamingRef.current) return;
+
+                    const chunks = gateInput(pcm);
+                    const isSending = chunks.length > 0;
+                    setIsSendingAudio(isSending);
+                    if (!isSending && wasSendingRef.current) {
+                        // Lets the model answer without waiting for more audio.
+                        connectionRef.current?.endAudioStream();
+                    }
+                    wasSendingRef.current = isSending;
+
+                    chunks.forEach((chunk, index) => {
+                        // Voice-activity pre-roll arrives late; place it where it was spoken.
+                        recorderRef.current?.addUserAudio(chunk, elapsedMs() - (chunks.length - 1 - index) * MIC_CHUNK_MS);
+                        const pcmBlob: AudioChunk = {
+                            data: encode(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength)),
+                            mimeType: 'audio/pcm;rate=16000',
+                        };
+                        connectionRef.current?.send(pcmBlob);
+                    });
                 },
-                callbacks: {
-                    onopen: () => {
+            });
+
+            const handleStateChange = ({ status, attempt, maxAttempts, reason, hadOpened, error }: LiveConnectionState) => {
+                setConnectionStatus(status);
+                switch (status) {
+                    case 'connected':
+                    case 'degraded':
                         setIsConnecting(false);
                         setIsActive(true);
-                        setStatusMessage('Listening... Speak now.');
-                        const source = inputAudioContextRef.current!.createMediaStreamSource(stream);
-                        const scriptProcessor = inputAudioContextRef.current!.createScriptProcessor(4096, 1, 1);
-                        scriptProcessorRef.current = scriptProcessor;
-
-                        scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-                            const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-                            const l = inputData.length;
-                            const int16 = new Int16Array(l);
-                            for (let i = 0; i < l; i++) {
-                                int16[i] = inputData[i] * 32768;
-                            }
-                            const pcmBlob: Blob = {
-                                data: encode(new Uint8Array(int16.buffer)),
-                                mimeType: 'audio/pcm;rate=16000',
-                            };
-                            sessionPromiseRef.current?.then((session) => {
-                                session.sendRealtimeInput({ media: pcmBlob });
-                            });
-                        };
-                        source.connect(scriptProcessor);
-                        scriptProcessor.connect(inputAudioContextRef.current!.destination);
-                    },
-                    onmessage: async (message: LiveServerMessage) => {
-                         if (message.serverContent?.inputTranscription) {
-                            const { text, isFinal } = message.serverContent.inputTranscription;
-                            setTranscripts(prev => {
-                                const last = prev[prev.length -1];
-                                if(last?.speaker === 'user' && !last.isFinal) {
-                                    const updated = [...prev];
-                                    updated[prev.length -1] = { ...last, text: last.text + text, isFinal };
-                                    return updated;
-                                }
-                                return [...prev, { speaker: 'user', text, isFinal }];
-                            });
-                        }
-                        if (message.serverContent?.outputTranscription) {
-                             const { text, isFinal } = message.serverContent.outputTranscription;
-                            setTranscripts(prev => {
-                                const last = prev[prev.length -1];
-                                if(last?.speaker === 'model' && !last.isFinal) {
-                                    const updated = [...prev];
-                                    updated[prev.length -1] = { ...last, text: last.text + text, isFinal };
-                                    return updated;
-                                }
-                                return [...prev, { speaker: 'model', text, isFinal }];
-                            });
-                        }
-
-                        const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-                        if (base64Audio && outputAudioContextRef.current) {
-                            setStatusMessage('AI is speaking...');
-                            const audioContext = outputAudioContextRef.current;
-                            nextStartTimeRef.current = Math.max(nextStartTimeRef.current, audioContext.currentTime);
-                            const audioBuffer = await decodeAudioData(decode(base64Audio), audioContext, 24000, 1);
-                            const source = audioContext.createBufferSource();
-                            source.buffer = audioBuffer;
-                            source.connect(audioContext.destination);
-                            source.addEventListener('ended', () => {
-                                audioSourcesRef.current.delete(source);
-                                if (audioSourcesRef.current.size === 0) {
-                                    setStatusMessage('Listening...');
-                                }
-                            });
-                            source.start(nextStartTimeRef.current);
-                            nextStartTimeRef.current += audioBuffer.duration;
-                            audioSourcesRef.current.add(source);
+                        isStreamingRef.current = true;
+                        if (!hadOpened) {
+                            setStatusMessage('Listening... Speak now.');
+                        } else {
+                            setStatusMessage(status === 'degraded' ? `Reconnected. ${reason}` : 'Reconnected. Listening...');
                         }
-
-                        if (message.serverContent?.interrupted) {
-                            audioSourcesRef.current.forEach(source => source.stop());
-                            audioSourcesRef.current.clear();
-                            nextStartTimeRef.current = 0;
-                        }
-                    },
-                    onerror: (e: ErrorEvent) => {
-                        console.error(e);
-                        setError('An error occurred during the session. Please try again.');
+                        break;
+                    case 'reconnecting':
+                        setStatusMessage(attempt > 0
+                            ? `Connection lost. Reconnecting (attempt ${attempt} of ${maxAttempts})...`
+                            : `Reconnecting... ${reason ?? ''}`.trim());
+                        break;
+                    case 'failed':
+                        // Auth, quota and safety failures explain themselves; a plain drop just needs reassurance.
+                        setError(hadOpened && (!error || error.kind === 'network' || error.kind === 'unknown')
+                            ? 'The connection was lost and could not be restored. The conversation so far has been saved.'
+                            : errorMessage(error, 'An error occurred during the session. Please try again.'));
                         cleanup();
                         setStatusMessage('Error. Press microphone to retry.');
-                    },
-                    onclose: () => {
-                       cleanup();
-                       setStatusMessage('Session closed. Press microphone to start again.');
-                    },
+                        break;
+                }
+            };
+
+            connectionRef.current = createLiveConnection({
+                voice: voiceSettings,
+                tools: tools.declarations,
+                grounding: grounding ?? undefined,
+                onStateChange: handleStateChange,
+                onEvent: async (message: LiveEvent) => {
+                    if (message.inputTranscription) {
+                        const { text, isFinal } = message.inputTranscription;
+                        updateTranscripts(prev => appendTranscription(prev, 'user', text, isFinal, elapsedMs()));
+                    }
+                    if (message.outputTranscription) {
+                        const { text, isFinal } = message.outputTranscription;
+                        updateTranscripts(prev => appendTranscription(prev, 'model', text, isFinal, elapsedMs()));
+                    }
+                    if (message.turnComplete) {
+                        // Checkpoint after each turn so a crash or closed tab loses at most one turn.
+                        persistSession(false);
+                    }
+                    if (message.toolCalls) {
+                        runToolCalls(message.toolCalls);
+                    }
+
+                    const base64Audio = message.audio;
+                    if (base64Audio && !isTextOnlyRef.current) {
+                        setStatusMessage('AI is speaking...');
+                        const pcm = decode(base64Audio);
+                        const startsIn = replyQueue.enqueue(await decodeAudioData(pcm, outputContext, 24000, 1));
+                        recorderRef.current?.addModelAudio(new Int16Array(pcm.buffer, 0, pcm.byteLength >> 1), elapsedMs() + startsIn * 1000);
+                    }
+
+                    if (message.interrupted) {
+                        // Whatever was queued but not yet heard is discarded from the recording too.
+                        recorderRef.current?.truncateModelAudio(elapsedMs());
+                        replyQueue.flush();
+                    }
                 },
             });
 
         } catch (e) {
             console.error(e);
-            setError('Could not start the microphone. Please check permissions and try again.');
+            setError(errorMessage(toMicrophoneError(e), 'Could not start the microphone. Please try again.'));
             cleanup();
             setStatusMessage('Error. Press microphone to retry.');
         }
@@ -190,42 +394,303 @@ const ConversationalView: React.FC = () => {
         return () => cleanup();
     }, [cleanup]);
 
+    // Read when the auto-start timer fires, so it sees the latest grounding, voice and session state.
+    const autoStartRef = useRef<() => void>(() => {});
+    autoStartRef.current = () => {
+        onAutoStarted?.();
+        if (!isActive && !isConnecting) handleToggleConversation();
+    };
+
+    useEffect(() => {
+        if (!autoStart) return;
+        // Deferred so that StrictMode's simulated remount doesn't start two sessions.
+        const timer = setTimeout(() => autoStartRef.current(), 0);
+        return () => clearTimeout(timer);
+    }, [autoStart]);
+
+    useEffect(() => {
+        setActiveQuote(null);
+    }, [viewedRecord]);
+
+    useEffect(() => {
+        if (!isActive || inputMode !== 'push-to-talk') return;
+        const isTyping = (target: EventTarget | null) =>
+            target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.code !== 'Space' || isTyping(e.target)) return;
+            e.preventDefault();
+            if (!e.repeat) setIsTalking(true);
+        };
+        const handleKeyUp = (e: KeyboardEvent) => {
+            if (e.code !== 'Space' || isTyping(e.target)) return;
+            e.preventDefault();
+            setIsTalking(false);
+        };
+        const handleBlur = () => setIsTalking(false);
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        window.addEventListener('blur', handleBlur);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+            window.removeEventListener('blur', handleBlur);
+        };
+    }, [isActive, inputMode]);
+
+    const displayedTranscripts = viewedRecord?.transcripts ?? transcripts;
+    const displayedArticle = viewedRecord ? viewedRecord.article : liveArticle;
+
+    const findQuotes = useMemo(() => displayedArticle ? createQuoteFinder(displayedArticle.text) : null, [displayedArticle]);
+    const quotesByEntry = useMemo(
+        () => displayedTranscripts.map(entry => findQuotes && entry.speaker === 'model' ? findQuotes(entry.text) : []),
+        [displayedTranscripts, findQuotes],
+    );
+    const quotedRanges = useMemo(
+        () => quotesByEntry.flat().map(quote => ({ start: quote.articleStart, end: quote.articleEnd })),
+        [quotesByEntry],
+    );
+
+    const handleDownloadRecording = () => {
+        if (!recording) return;
+        const stem = `conversation-${new Date(recording.startedAt).toISOString().slice(0, 16).replace(/[:T]/g, '-')}`;
+        if (recordingLayout === 'stereo') {
+            downloadBlob(new Blob([recording.recorder.toStereoWav(recording.markers)], { type: 'audio/wav' }), `${stem}.wav`);
+            return;
+        }
+        const tracks = recording.recorder.toTrackWavs(recording.markers);
+        downloadBlob(new Blob([tracks.user], { type: 'audio/wav' }), `${stem}-you.wav`);
+        downloadBlob(new Blob([tracks.model], { type: 'audio/wav' }), `${stem}-ai.wav`);
+    };
+
     return (
-        <main className="bg-gray-800 rounded-2xl shadow-2xl p-6 sm:p-8 space-y-6 flex flex-col" style={{minHeight: '500px'}}>
-            <div
-                role="log"
-                aria-live="polite"
-                className="flex-grow bg-gray-900/50 p-4 rounded-lg overflow-y-auto space-y-4"
-            >
-                {transcripts.length === 0 && <p className="text-gray-400 text-center">Conversation transcript will appear here...</p>}
-                {transcripts.map((entry, index) => (
-                    <div key={index} className={`flex ${entry.speaker === 'user' ? 'justify-end' : 'justify-start'}`}>
-                        <p className={`max-w-xs md:max-w-md lg:max-w-lg p-3 rounded-xl ${entry.speaker === 'user' ? 'bg-blue-600' : 'bg-gray-600'}`}>
-                            {entry.text}
+        <main className="bg-gray-800 rounded-2xl shadow-2xl p-6 sm:p-8 flex flex-col md:flex-row gap-6" style={{minHeight: '500px'}}>
+            <ConversationHistory
+                selectedId={viewedRecord?.id ?? null}
+                onSelect={(record) => {
+                    if (!isActive && !isConnecting) setViewedRecord(record);
+                }}
+                onDeleted={(id) => {
+                    if (viewedRecord?.id === id) setViewedRecord(null);
+                    if (lastRecord?.id === id) setLastRecord(null);
+                }}
+                refreshKey={historyVersion}
+            />
+
+            <div className="flex-1 min-w-0 flex flex-col space-y-6">
+                {viewedRecord && (
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                        <p className="text-sm text-gray-400">
+                            {new Date(viewedRecord.startedAt).toLocaleString()} · {viewedRecord.voice} · {viewedRecord.model}
                         </p>
+                        <button
+                            onClick={() => setViewedRecord(null)}
+                            className="px-3 py-1 text-sm font-medium bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors duration-200"
+                        >
+                            Back to live conversation
+                        </button>
                     </div>
-                ))}
-            </div>
+                )}
 
-            <div className="flex flex-col items-center justify-center pt-4 space-y-4">
-                 <p className="text-lg text-gray-300 h-6">{statusMessage}</p>
-                <button
-                    onClick={handleToggleConversation}
-                    disabled={isConnecting}
-                    className="w-20 h-20 rounded-full flex items-center justify-center transition-colors duration-200 disabled:opacity-50 disabled:cursor-wait
-                        bg-gradient-to-br from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700
-                        focus:outline-none focus:ring-4 focus:ring-purple-500/50"
-                    aria-label={isActive ? 'Stop conversation' : 'Start conversation'}
-                >
-                    {isConnecting ? <LoadingIcon /> : (isActive ? <StopIcon /> : <MicrophoneIcon />)}
-                </button>
-            </div>
+                {grounding && !viewedRecord && (
+                    <div className="flex flex-wrap items-center justify-between gap-2 p-3 bg-purple-900/30 border border-purple-500/50 rounded-lg">
+                        <p className="text-sm text-purple-200">
+                            Asking about <span className="font-semibold">{grounding.title}</span>. Answers are drawn from the article.
+                        </p>
+                        <button
+                            onClick={onClearGrounding}
+                            disabled={isActive || isConnecting}
+                            className="px-3 py-1 text-sm font-medium bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors duration-200 disabled:opacity-50"
+                        >
+                            Talk about anything
+                        </button>
+                    </div>
+                )}
+
+                {displayedArticle && (
+                    <GroundedArticle
+                        title={displayedArticle.title}
+                        text={displayedArticle.text}
+                        quotes={quotedRanges}
+                        activeQuote={activeQuote}
+                    />
+                )}
 
-            {error && (
-                <div className="mt-4 p-4 bg-red-900/50 border border-red-500 text-red-300 rounded-lg text-center">
-                    {error}
+                <div
+                    role="log"
+                    aria-live="polite"
+                    className="flex-grow bg-gray-900/50 p-4 rounded-lg overflow-y-auto space-y-4"
+                >
+                    {displayedTranscripts.length === 0 && <p className="text-gray-400 text-center">Conversation transcript will appear here...</p>}
+                    {displayedTranscripts.map((entry, index) => entry.speaker === 'tool' ? (
+                        <div key={index} className="flex justify-center">
+                            <p className="max-w-full px-3 py-1.5 rounded-lg border border-gray-600 bg-gray-800 font-mono text-xs text-gray-300 break-words">
+                                <span className={`mr-2 ${TOOL_STATUS_STYLES[entry.tool?.status ?? 'done'].className}`}>
+                                    {TOOL_STATUS_STYLES[entry.tool?.status ?? 'done'].icon}
+                                </span>
+                                {entry.text}
+                            </p>
+                        </div>
+                    ) : (
+                        <div key={index} className={`flex ${entry.speaker === 'user' ? 'justify-end' : 'justify-start'}`}>
+                            <p className={`max-w-xs md:max-w-md lg:max-w-lg p-3 rounded-xl ${entry.speaker === 'user' ? 'bg-blue-600' : 'bg-gray-600'}`}>
+                                {quotesByEntry[index].length > 0 ? (
+                                    <QuotedAnswer
+                                        text={entry.text}
+                                        quotes={quotesByEntry[index]}
+                                        activeQuote={activeQuote}
+                                        onSelectQuote={setActiveQuote}
+                                    />
+                                ) : entry.text}
+                            </p>
+                        </div>
+                    ))}
                 </div>
-            )}
+
+                {!viewedRecord && (
+                    <form onSubmit={handleSendText} className="flex flex-wrap items-center gap-2">
+                        <label htmlFor="live-text-input" className="sr-only">Type a message</label>
+                        <input
+                            id="live-text-input"
+                            type="text"
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            disabled={!isActive}
+                            placeholder={isActive ? 'Type a message instead of speaking...' : 'Start a session to type a message'}
+                            className="flex-1 min-w-0 px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-gray-200 disabled:opacity-50"
+                        />
+                        <button
+                            type="submit"
+                            disabled={!isActive || !draft.trim()}
+                            className="px-4 py-2 font-medium bg-purple-600 rounded-lg hover:bg-purple-700 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Send
+                        </button>
+                        <label className="flex items-center gap-2 text-sm text-gray-300">
+                            <input
+                                type="checkbox"
+                                checked={isTextOnly}
+                                onChange={(e) => handleTextOnlyChange(e.target.checked)}
+                                className="accent-purple-500"
+                            />
+                            Text-only replies
+                        </label>
+                    </form>
+                )}
+
+                {viewedRecord ? (
+                    <TranscriptExport record={viewedRecord} />
+                ) : (
+                    <>
+                        <div className="flex flex-col items-center justify-center pt-4 space-y-4">
+                             {connectionStatus && (
+                                <span className="flex items-center gap-2 text-xs uppercase tracking-wide text-gray-400" aria-live="polite">
+                                    <span className={`w-2 h-2 rounded-full ${CONNECTION_BADGES[connectionStatus].className}`} />
+                                    {CONNECTION_BADGES[connectionStatus].label}
+                                </span>
+                             )}
+                             <p className="text-lg text-gray-300 min-h-6 text-center">{statusMessage}</p>
+                            <button
+                                onClick={handleToggleConversation}
+                                disabled={isConnecting}
+                                className="w-20 h-20 rounded-full flex items-center justify-center transition-colors duration-200 disabled:opacity-50 disabled:cursor-wait
+                                    bg-gradient-to-br from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700
+                                    focus:outline-none focus:ring-4 focus:ring-purple-500/50"
+                                aria-label={isActive ? 'Stop conversation' : 'Start conversation'}
+                            >
+                                {isConnecting ? <LoadingIcon /> : (isActive ? <StopIcon /> : <MicrophoneIcon />)}
+                            </button>
+                        </div>
+                        <div className="flex flex-col items-center gap-3">
+                            <div role="radiogroup" aria-label="Microphone input mode" className="flex rounded-lg bg-gray-900 p-1 text-sm">
+                                {INPUT_MODES.map(mode => (
+                                    <button
+                                        key={mode.value}
+                                        role="radio"
+                                        aria-checked={inputMode === mode.value}
+                                        onClick={() => handleInputModeChange(mode.value)}
+                                        className={`px-3 py-1 rounded-md transition-colors duration-200 ${
+                                            inputMode === mode.value ? 'bg-purple-600 text-white' : 'text-gray-400 hover:text-white'
+                                        }`}
+                                    >
+                                        {mode.label}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="flex flex-wrap items-center justify-center gap-4">
+                                <button
+                                    onClick={() => {
+                                        vad.reset();
+                                        setIsMuted(muted => !muted);
+                                    }}
+                                    aria-pressed={isMuted}
+                                    className={`flex items-center gap-2 px-3 py-1 text-sm font-medium rounded-lg transition-colors duration-200 ${
+                                        isMuted ? 'bg-red-600 hover:bg-red-700 text-white' : 'bg-gray-700 hover:bg-gray-600'
+                                    }`}
+                                >
+                                    {isMuted ? <MicrophoneOffIcon /> : null}
+                                    {isMuted ? 'Unmute' : 'Mute'}
+                                </button>
+                                {isActive && <InputLevelMeter level={inputLevel} isSending={isSendingAudio} />}
+                            </div>
+                            {isActive && inputMode === 'push-to-talk' && (
+                                <button
+                                    onPointerDown={(e) => {
+                                        e.currentTarget.setPointerCapture(e.pointerId);
+                                        setIsTalking(true);
+                                    }}
+                                    onPointerUp={() => setIsTalking(false)}
+                                    onPointerCancel={() => setIsTalking(false)}
+                                    disabled={isMuted}
+                                    className={`px-6 py-2 font-semibold rounded-lg select-none touch-none transition-colors duration-200 disabled:opacity-50 ${
+                                        isTalking ? 'bg-green-600 text-white' : 'bg-gray-700 hover:bg-gray-600'
+                                    }`}
+                                >
+                                    {isTalking ? 'Talking...' : 'Hold to talk (or hold Space)'}
+                                </button>
+                            )}
+                        </div>
+                        <div className="flex flex-wrap items-center justify-center gap-4 text-sm text-gray-300">
+                            <label className="flex items-center gap-2">
+                                <input
+                                    type="checkbox"
+                                    checked={isRecordingEnabled}
+                                    onChange={(e) => setIsRecordingEnabled(e.target.checked)}
+                                    disabled={isActive || isConnecting}
+                                    className="accent-purple-500"
+                                />
+                                Record session
+                            </label>
+                            <label className="flex items-center gap-2">
+                                <span className="sr-only">Recording layout</span>
+                                <select
+                                    value={recordingLayout}
+                                    onChange={(e) => setRecordingLayout(e.target.value as RecordingLayout)}
+                                    disabled={!isRecordingEnabled && !recording}
+                                    className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 disabled:opacity-50"
+                                >
+                                    <option value="stereo">Stereo (you left, AI right)</option>
+                                    <option value="tracks">Separate tracks</option>
+                                </select>
+                            </label>
+                            {recording && !isActive && !isConnecting && (
+                                <button
+                                    onClick={handleDownloadRecording}
+                                    className="px-3 py-1 font-medium bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors duration-200"
+                                >
+                                    Download recording (WAV)
+                                </button>
+                            )}
+                        </div>
+                        {lastRecord && !isActive && !isConnecting && <TranscriptExport record={lastRecord} />}
+                    </>
+                )}
+
+                {error && (
+                    <div className="mt-4 p-4 bg-red-900/50 border border-red-500 text-red-300 rounded-lg text-center">
+                        {error}
+                    </div>
+                )}
+            </div>
         </main>
     );
 };
@@ -0,0 +1,299 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { summarizeArticle } from '../services/geminiService';
+import { errorMessage } from '../services/errors';
+import { createSpeechQueue } from '../services/speechQueue';
+import { getAudioEngine } from '../services/audioEngine';
+import { DigestSection, DigestStory, buildDigestScript, digestToText, planDigestSegments } from '../services/digest';
+import { ExtractedArticle, articleToText, extractFromFile, fetchArticle, isUrl } from '../services/articleExtractor';
+import { SummaryOptions, VoiceSettings } from '../services/providers/types';
+import { concatBytes, decodeAudioData } from '../utils/audioUtils';
+import { createSegmentedPlayer } from '../utils/segmentedPlayer';
+import { deriveTitle, formatDuration } from '../utils/textUtils';
+import ArticleImport from './ArticleImport';
+import SummaryPlayer from './SummaryPlayer';
+import SummaryExport from './SummaryExport';
+import LoadingIcon from './icons/LoadingIcon';
+
+type DigestItem = {
+    id: string;
+    title: string;
+    articleText: string;
+    status: 'queued' | 'summarizing' | 'done' | 'failed';
+};
+
+type Chapter = DigestSection & {
+    /** Index of the chapter's first synthesized sentence. */
+    firstSegment: number;
+};
+
+type DigestViewProps = {
+    summaryOptions: SummaryOptions;
+    voiceSettings: VoiceSettings;
+};
+
+const DigestView: React.FC<DigestViewProps> = ({ summaryOptions, voiceSettings }) => {
+    const [items, setItems] = useState<DigestItem[]>([]);
+    const [draft, setDraft] = useState('');
+    const [isBuilding, setIsBuilding] = useState(false);
+    const [isImporting, setIsImporting] = useState(false);
+    const [progress, setProgress] = useState<string | null>(null);
+    const [chapters, setChapters] = useState<Chapter[]>([]);
+    const [segmentStarts, setSegmentStarts] = useState<number[]>([]);
+    const [builtAt, setBuiltAt] = useState<Date>(() => new Date());
+    const [isAudioComplete, setIsAudioComplete] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const pcmChunksRef = useRef<Uint8Array[]>([]);
+    const buildIdRef = useRef(0);
+
+    // Digests play on the summary channel, so a live reply ducks them like a summary.
+    const [player] = useState(() => createSegmentedPlayer(
+        () => getAudioEngine().getContext(),
+        () => getAudioEngine().getOutput('summary'),
+    ));
+
+    useEffect(() => player.subscribe(() => setSegmentStarts(player.getSegmentStarts())), [player]);
+
+    useEffect(() => () => {
+        buildIdRef.current++;
+        player.reset();
+    }, [player]);
+
+    const addItem = (article: ExtractedArticle | string) => {
+        const articleText = typeof article === 'string' ? article.trim() : articleToText(article);
+        const title = typeof article === 'string' ? deriveTitle(articleText) : article.title;
+        setItems(prev => [...prev, { id: crypto.randomUUID(), title, articleText, status: 'queued' }]);
+    };
+
+    const importItem = async (load: () => Promise<ExtractedArticle>) => {
+        setIsImporting(true);
+        setError(null);
+        try {
+            addItem(await load());
+            return true;
+        } catch (e) {
+            console.error(e);
+            setError(e instanceof Error ? e.message : 'Could not import that article.');
+            return false;
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const handleAddDraft = async () => {
+        const text = draft.trim();
+        if (!text) return;
+        const added = isUrl(text) ? await importItem(() => fetchArticle(text)) : (addItem(text), true);
+        if (added) setDraft('');
+    };
+
+    const moveItem = (index: number, offset: number) => {
+        setItems(prev => {
+            const target = index + offset;
+            if (target < 0 || target >= prev.length) return prev;
+            const next = [...prev];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    };
+
+    const updateStatus = (id: string, status: DigestItem['status']) => {
+        setItems(prev => prev.map(item => (item.id === id ? { ...item, status } : item)));
+    };
+
+    const handleBuild = async () => {
+        if (items.length === 0) return;
+        const buildId = ++buildIdRef.current;
+        const isCurrent = () => buildIdRef.current === buildId;
+        const queue = items;
+        const startedAt = new Date();
+
+        player.reset();
+        pcmChunksRef.current = [];
+        setChapters([]);
+        setBuiltAt(startedAt);
+        setIsAudioComplete(false);
+        setIsBuilding(true);
+        setError(null);
+
+        try {
+            // Created inside the click handler so the browser allows it to start playing.
+            const audioContext = await getAudioEngine().getContext();
+
+            const stories: DigestStory[] = [];
+            for (const [index, item] of queue.entries()) {
+                // Unmounting or rebuilding stops the remaining stories from being summarized.
+                if (!isCurrent()) return;
+                setProgress(`Summarizing story ${index + 1} of ${queue.length}...`);
+                updateStatus(item.id, 'summarizing');
+                try {
+                    stories.push({ title: item.title, summary: await summarizeArticle(item.articleText, summaryOptions) });
+                    updateStatus(item.id, 'done');
+                } catch (e) {
+                    updateStatus(item.id, 'failed');
+                    throw e;
+                }
+            }
+            if (!isCurrent()) return;
+
+            const sections = buildDigestScript(stories, startedAt, summaryOptions.language);
+            const { sentences, chapterStarts } = planDigestSegments(sections);
+            setChapters(sections.map((section, index) => ({ ...section, firstSegment: chapterStarts[index] })));
+            setProgress('Recording the bulletin...');
+
+            let isFirstSegment = true;
+            const speechQueue = createSpeechQueue({ ...summaryOptions, voice: voiceSettings }, async (pcm) => {
+                pcmChunksRef.current.push(pcm);
+                player.append(await decodeAudioData(pcm, audioContext, 24000, 1));
+                if (isFirstSegment) {
+                    isFirstSegment = false;
+                    await player.play();
+                }
+            }, () => !isCurrent());
+            sentences.forEach(speechQueue.enqueue);
+            await speechQueue.drain();
+            if (isCurrent()) setIsAudioComplete(true);
+        } catch (e) {
+            console.error(e);
+            if (isCurrent()) {
+                setError(errorMessage(e, 'Failed to build the digest. Please try again.'));
+            }
+        } finally {
+            if (isCurrent()) {
+                player.setComplete(true);
+                setIsBuilding(false);
+                setProgress(null);
+            }
+        }
+    };
+
+    const handleJumpToChapter = async (chapter: Chapter) => {
+        const start = segmentStarts[chapter.firstSegment];
+        if (start === undefined) return;
+        player.seek(start);
+        await player.play();
+    };
+
+    const buttonClass = "px-2 py-1 text-sm bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors duration-200 disabled:opacity-40 disabled:cursor-not-allowed";
+
+    return (
+        <main className="bg-gray-800 rounded-2xl shadow-2xl p-6 sm:p-8 space-y-6">
+            <div className="flex flex-col space-y-4">
+                <label htmlFor="digest-input" className="text-lg font-semibold text-gray-300">
+                    Queue articles for your briefing
+                </label>
+                <textarea
+                    id="digest-input"
+                    rows={5}
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    placeholder="Paste an article or its URL, then add it to the queue..."
+                    className="w-full p-4 bg-gray-900 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors duration-200 resize-y text-gray-200"
+                />
+                <div className="flex flex-col sm:flex-row gap-2">
+                    <button
+                        onClick={handleAddDraft}
+                        disabled={!draft.trim() || isImporting || isBuilding}
+                        className="px-4 py-2 font-medium bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Add to digest
+                    </button>
+                    <div className="flex-1">
+                        <ArticleImport
+                            onFetchUrl={(url) => importItem(() => fetchArticle(url))}
+                            onFile={(file) => importItem(() => extractFromFile(file))}
+                            disabled={isImporting || isBuilding}
+                        />
+                    </div>
+                </div>
+            </div>
+
+            {items.length > 0 && (
+                <ol className="space-y-2">
+                    {items.map((item, index) => (
+                        <li key={item.id} className="flex items-center gap-3 bg-gray-900/50 p-3 rounded-lg">
+                            <span className="text-gray-500 tabular-nums w-6 text-right">{index + 1}.</span>
+                            <span className="flex-1 truncate text-gray-200">{item.title}</span>
+                            <span className="text-xs text-gray-400">
+                                {item.status === 'summarizing' ? 'Summarizing…' : item.status === 'done' ? 'Summarized' : item.status === 'failed' ? 'Failed' : ''}
+                            </span>
+                            <button onClick={() => moveItem(index, -1)} disabled={isBuilding || index === 0} className={buttonClass} aria-label={`Move "${item.title}" up`}>↑</button>
+                            <button onClick={() => moveItem(index, 1)} disabled={isBuilding || index === items.length - 1} className={buttonClass} aria-label={`Move "${item.title}" down`}>↓</button>
+                            <button
+                                onClick={() => setItems(prev => prev.filter(other => other.id !== item.id))}
+                                disabled={isBuilding}
+                                className={buttonClass}
+                                aria-label={`Remove "${item.title}"`}
+                            >
+                                ✕
+                            </button>
+                        </li>
+                    ))}
+                </ol>
+            )}
+
+            <div className="flex justify-center">
+                <button
+                    onClick={handleBuild}
+                    disabled={isBuilding || items.length === 0}
+                    className="flex items-center justify-center w-full sm:w-auto px-8 py-3 text-lg font-bold text-white bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg hover:from-blue-600 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transform hover:scale-105 transition-transform duration-200 shadow-lg"
+                >
+                    {isBuilding ? (
+                        <>
+                            <LoadingIcon />
+                            {progress ?? 'Building...'}
+                        </>
+                    ) : (
+                        `Build Audio Bulletin${items.length > 0 ? ` (${items.length})` : ''}`
+                    )}
+                </button>
+            </div>
+
+            {error && (
+                <div className="p-4 bg-red-900/50 border border-red-500 text-red-300 rounded-lg text-center">
+                    {error}
+                </div>
+            )}
+
+            {chapters.length > 0 && (
+                <div className="bg-gray-900/50 p-6 rounded-lg space-y-4 animate-fade-in">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                        <h2 className="text-2xl font-bold text-blue-300">Your Briefing</h2>
+                        <SummaryExport
+                            document={{
+                                title: `News briefing ${builtAt.toLocaleDateString()}`,
+                                summary: digestToText(chapters),
+                                date: builtAt,
+                            }}
+                            getPcm={() => pcmChunksRef.current.length > 0 ? concatBytes(pcmChunksRef.current) : null}
+                            isAudioReady={isAudioComplete}
+                            onError={setError}
+                        />
+                    </div>
+                    <SummaryPlayer player={player} onError={setError} />
+                    <ol className="space-y-1" aria-label="Chapters">
+                        {chapters.map((chapter, index) => {
+                            const start = segmentStarts[chapter.firstSegment];
+                            return (
+                                <li key={index}>
+                                    <button
+                                        onClick={() => handleJumpToChapter(chapter)}
+                                        disabled={start === undefined}
+                                        className="w-full flex items-center gap-3 p-2 text-left rounded-lg hover:bg-gray-700/50 transition-colors duration-200 disabled:opacity-50 disabled:cursor-wait"
+                                    >
+                                        <span className="text-sm text-gray-400 tabular-nums w-12">
+                                            {start === undefined ? '--:--' : formatDuration(start)}
+                                        </span>
+                                        <span className={chapter.kind === 'story' ? 'text-gray-200' : 'text-gray-400 italic'}>{chapter.title}</span>
+                                    </button>
+                                </li>
+                            );
+                        })}
+                    </ol>
+                </div>
+            )}
+        </main>
+    );
+};
+
+export default DigestView;
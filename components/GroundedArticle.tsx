@@ -0,0 +1,59 @@
+import React, { useEffect, useRef } from 'react';
+
+export type TextRange = { start: number; end: number };
+
+type GroundedArticleProps = {
+    title: string;
+    text: string;
+    /** Passages quoted anywhere in the conversation. */
+    quotes: TextRange[];
+    /** The quote picked in the transcript; scrolled into view and emphasized. */
+    activeQuote: TextRange | null;
+};
+
+const covers = (range: TextRange | null, start: number, end: number) =>
+    !!range && range.start <= start && end <= range.end;
+
+const GroundedArticle: React.FC<GroundedArticleProps> = ({ title, text, quotes, activeQuote }) => {
+    const activeRef = useRef<HTMLElement | null>(null);
+
+    useEffect(() => {
+        activeRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, [activeQuote]);
+
+    // Split the text wherever a quote starts or ends, then style each piece by what covers it.
+    const boundaries = new Set([0, text.length]);
+    [...quotes, ...(activeQuote ? [activeQuote] : [])].forEach(({ start, end }) => {
+        boundaries.add(start);
+        boundaries.add(end);
+    });
+    const points = [...boundaries].sort((a, b) => a - b);
+    let firstActive = true;
+
+    return (
+        <section className="bg-gray-900/50 rounded-lg p-4 space-y-2">
+            <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wide">Article: {title}</h3>
+            <div className="max-h-64 overflow-y-auto text-sm text-gray-300 leading-relaxed whitespace-pre-line">
+                {points.slice(1).map((end, index) => {
+                    const start = points[index];
+                    const piece = text.slice(start, end);
+                    if (covers(activeQuote, start, end)) {
+                        const isFirst = firstActive;
+                        firstActive = false;
+                        return (
+                            <mark key={start} ref={isFirst ? activeRef : undefined} className="bg-yellow-500/60 text-white rounded">
+                                {piece}
+                            </mark>
+                        );
+                    }
+                    if (quotes.some(quote => covers(quote, start, end))) {
+                        return <mark key={start} className="bg-yellow-900/40 text-gray-200 rounded">{piece}</mark>;
+                    }
+                    return <React.Fragment key={start}>{piece}</React.Fragment>;
+                })}
+            </div>
+        </section>
+    );
+};
+
+export default GroundedArticle;
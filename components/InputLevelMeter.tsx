@@ -0,0 +1,29 @@
+import React from 'react';
+
+type InputLevelMeterProps = {
+    /** Meter position from 0 to 1. */
+    level: number;
+    /** Whether the audio is currently being sent to the model. */
+    isSending: boolean;
+};
+
+const InputLevelMeter: React.FC<InputLevelMeterProps> = ({ level, isSending }) => (
+    <div className="flex items-center gap-2" title={isSending ? 'Sending to the model' : 'Not sending'}>
+        <div
+            role="meter"
+            aria-label="Microphone level"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(level * 100)}
+            className="w-32 h-2 bg-gray-700 rounded-full overflow-hidden"
+        >
+            <div
+                className={`h-full rounded-full transition-[width] duration-100 ${isSending ? 'bg-green-500' : 'bg-gray-400'}`}
+                style={{ width: `${level * 100}%` }}
+            />
+        </div>
+        <span className={`text-xs ${isSending ? 'text-green-400' : 'text-gray-500'}`}>{isSending ? 'Sending' : 'Idle'}</span>
+    </div>
+);
+
+export default InputLevelMeter;
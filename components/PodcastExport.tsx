@@ -0,0 +1,119 @@
+import React, { useState, useEffect } from 'react';
+import { SummaryEntry } from '../services/summaryLibrary';
+import {
+    PodcastCover,
+    PodcastSettings,
+    buildPodcastBundle,
+    loadPodcastSettings,
+    normalizeBaseUrl,
+    savePodcastSettings,
+} from '../services/podcastFeed';
+import { downloadBlob, toFileStem } from '../utils/downloadUtils';
+import LoadingIcon from './icons/LoadingIcon';
+
+type PodcastExportProps = {
+    /** The summaries to publish; those without audio are skipped. */
+    entries: SummaryEntry[];
+};
+
+/** Exports saved summaries as a podcast: MP3 episodes and an RSS feed, zipped for a static file server. */
+const PodcastExport: React.FC<PodcastExportProps> = ({ entries }) => {
+    const [settings, setSettings] = useState<PodcastSettings>(loadPodcastSettings);
+    const [cover, setCover] = useState<PodcastCover | null>(null);
+    const [progress, setProgress] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        savePodcastSettings(settings);
+    }, [settings]);
+
+    const episodeCount = entries.filter(entry => entry.audioSegments.length > 0).length;
+    const baseUrl = normalizeBaseUrl(settings.baseUrl);
+
+    const handleCoverChange = async (file: File | undefined) => {
+        setCover(file ? { data: new Uint8Array(await file.arrayBuffer()), type: file.type } : null);
+    };
+
+    const handleExport = async () => {
+        if (!baseUrl) return;
+        setError(null);
+        try {
+            const bundle = await buildPodcastBundle(entries, { ...settings, baseUrl }, {
+                cover: cover ?? undefined,
+                onProgress: (episode, total) => setProgress(`Encoding episode ${episode} of ${total}...`),
+            });
+            downloadBlob(new Blob([bundle], { type: 'application/zip' }), `${toFileStem(settings.title)}-podcast.zip`);
+        } catch (e) {
+            console.error("Error exporting podcast: ", e);
+            setError('Could not build the podcast. Please try again.');
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    const update = (field: keyof PodcastSettings) => (e: React.ChangeEvent<HTMLInputElement>) =>
+        setSettings(prev => ({ ...prev, [field]: e.target.value }));
+
+    const inputClass = "bg-gray-900 border-2 border-gray-700 rounded-lg px-2 py-1 text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+    return (
+        <details className="bg-gray-900/50 p-4 rounded-lg">
+            <summary className="cursor-pointer font-semibold text-blue-300">Podcast feed</summary>
+            <div className="mt-4 space-y-4 text-sm text-gray-300">
+                <p className="text-gray-400">
+                    Downloads a ZIP with an MP3 per summary, an RSS feed and a web page. Unzip it, serve the folder
+                    at the address below (for example with <code>npx serve -l 8080</code> inside it) and subscribe
+                    to <code>{baseUrl ? `${baseUrl}feed.xml` : 'feed.xml'}</code> in your podcast app.
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <label className="flex flex-col gap-1">
+                        Show title
+                        <input value={settings.title} onChange={update('title')} className={inputClass} />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        Author
+                        <input value={settings.author} onChange={update('author')} className={inputClass} />
+                    </label>
+                    <label className="flex flex-col gap-1 sm:col-span-2">
+                        Description
+                        <input value={settings.description} onChange={update('description')} className={inputClass} />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        Served from
+                        <input
+                            type="url"
+                            value={settings.baseUrl}
+                            onChange={update('baseUrl')}
+                            aria-invalid={!baseUrl}
+                            className={inputClass}
+                        />
+                        {!baseUrl && <span className="text-xs text-red-300">Enter an address starting with http:// or https://</span>}
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        Cover art (square JPEG or PNG, optional)
+                        <input
+                            type="file"
+                            accept="image/jpeg,image/png"
+                            onChange={(e) => handleCoverChange(e.target.files?.[0])}
+                            className="text-gray-400"
+                        />
+                    </label>
+                </div>
+                <button
+                    onClick={handleExport}
+                    disabled={!baseUrl || episodeCount === 0 || progress !== null}
+                    className="flex items-center px-4 py-2 font-medium bg-purple-600 rounded-lg hover:bg-purple-700 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {progress ? <><LoadingIcon />{progress}</> : `Export ${episodeCount} ${episodeCount === 1 ? 'episode' : 'episodes'}`}
+                </button>
+                {error && (
+                    <div className="p-3 bg-red-900/50 border border-red-500 text-red-300 rounded-lg text-center">
+                        {error}
+                    </div>
+                )}
+            </div>
+        </details>
+    );
+};
+
+export default PodcastExport;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { QuoteMatch } from '../utils/quoteMatching';
+import { TextRange } from './GroundedArticle';
+
+type QuotedAnswerProps = {
+    text: string;
+    /** Passages of `text` that quote the article, in order. */
+    quotes: QuoteMatch[];
+    activeQuote: TextRange | null;
+    onSelectQuote: (range: TextRange) => void;
+};
+
+/** A model answer whose quotes from the article are links to the quoted passage. */
+const QuotedAnswer: React.FC<QuotedAnswerProps> = ({ text, quotes, activeQuote, onSelectQuote }) => {
+    const pieces: React.ReactNode[] = [];
+    let offset = 0;
+    quotes.forEach(quote => {
+        pieces.push(text.slice(offset, quote.answerStart));
+        const range = { start: quote.articleStart, end: quote.articleEnd };
+        const isActive = activeQuote?.start === range.start && activeQuote?.end === range.end;
+        pieces.push(
+            <button
+                key={quote.answerStart}
+                onClick={() => onSelectQuote(range)}
+                title="Show this passage in the article"
+                className={`inline text-left underline decoration-yellow-400 decoration-2 underline-offset-2 rounded hover:bg-yellow-900/40 focus:outline-none focus:ring-2 focus:ring-yellow-400 ${
+                    isActive ? 'bg-yellow-900/60' : ''
+                }`}
+            >
+                {text.slice(quote.answerStart, quote.answerEnd)}
+            </button>,
+        );
+        offset = quote.answerEnd;
+    });
+    pieces.push(text.slice(offset));
+
+    return <>{pieces}</>;
+};
+
+export default QuotedAnswer;
@@ -0,0 +1,27 @@
+import React, { useEffect, useState } from 'react';
+import { dismissReminder, getFiredReminders, subscribeToReminders } from '../services/reminders';
+
+/** Timers set during a conversation that have gone off, shown whichever tab is open. */
+const ReminderAlerts: React.FC = () => {
+    const [reminders, setReminders] = useState(getFiredReminders);
+
+    useEffect(() => subscribeToReminders(() => setReminders(getFiredReminders())), []);
+
+    return (
+        <>
+            {reminders.map(reminder => (
+                <div key={reminder.id} role="alert" className="p-3 mb-6 flex items-center justify-between gap-4 bg-yellow-900/50 border border-yellow-500 text-yellow-200 rounded-lg">
+                    <span>Timer finished: {reminder.label}</span>
+                    <button
+                        onClick={() => dismissReminder(reminder.id)}
+                        className="px-3 py-1 text-sm font-medium bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors duration-200"
+                    >
+                        Dismiss
+                    </button>
+                </div>
+            ))}
+        </>
+    );
+};
+
+export default ReminderAlerts;
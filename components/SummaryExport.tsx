@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { encodeMp3, encodeWav } from '../utils/audioUtils';
+import { downloadBlob, toFileStem } from '../utils/downloadUtils';
+import { SummaryDocument, summaryToMarkdown, summaryToPlainText } from '../utils/textUtils';
+
+const SAMPLE_RATE = 24000;
+
+type SummaryExportProps = {
+    document: SummaryDocument;
+    /** Returns the full 24 kHz mono 16-bit PCM of the summary, or null if none is ready. */
+    getPcm: () => Uint8Array | null;
+    isAudioReady: boolean;
+    onError?: (message: string) => void;
+};
+
+const SummaryExport: React.FC<SummaryExportProps> = ({ document, getPcm, isAudioReady, onError }) => {
+    const [isEncoding, setIsEncoding] = useState(false);
+    const stem = toFileStem(document.title);
+
+    const handleDownloadWav = () => {
+        const pcm = getPcm();
+        if (!pcm) return;
+        downloadBlob(new Blob([encodeWav(pcm, SAMPLE_RATE, 1)], { type: 'audio/wav' }), `${stem}.wav`);
+    };
+
+    const handleDownloadMp3 = async () => {
+        const pcm = getPcm();
+        if (!pcm) return;
+        setIsEncoding(true);
+        try {
+            const mp3 = await encodeMp3(pcm, SAMPLE_RATE);
+            downloadBlob(new Blob([mp3], { type: 'audio/mpeg' }), `${stem}.mp3`);
+        } catch (e) {
+            console.error("Error encoding MP3: ", e);
+            onError?.("Could not encode the audio as MP3. Try the WAV download instead.");
+        } finally {
+            setIsEncoding(false);
+        }
+    };
+
+    const handleDownloadText = () => {
+        downloadBlob(new Blob([summaryToPlainText(document)], { type: 'text/plain' }), `${stem}.txt`);
+    };
+
+    const handleDownloadMarkdown = () => {
+        downloadBlob(new Blob([summaryToMarkdown(document)], { type: 'text/markdown' }), `${stem}.md`);
+    };
+
+    const buttonClass = "px-3 py-1 text-sm font-medium bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed";
+
+    return (
+        <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Download summary">
+            <span className="text-sm text-gray-400">Download:</span>
+            <button onClick={handleDownloadWav} disabled={!isAudioReady} className={buttonClass}>WAV</button>
+            <button onClick={handleDownloadMp3} disabled={!isAudioReady || isEncoding} className={buttonClass}>
+                {isEncoding ? 'Encoding…' : 'MP3'}
+            </button>
+            <button onClick={handleDownloadText} className={buttonClass}>Text</button>
+            <button onClick={handleDownloadMarkdown} className={buttonClass}>Markdown</button>
+        </div>
+    );
+};
+
+export default SummaryExport;
@@ -0,0 +1,138 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+    SummaryEntry,
+    StorageUsage,
+    deleteSummary,
+    entrySize,
+    getStorageUsage,
+    listSummaries,
+    searchSummaries,
+} from '../services/summaryLibrary';
+import { formatBytes } from '../utils/textUtils';
+import PodcastExport from './PodcastExport';
+import PlayIcon from './icons/PlayIcon';
+import LoadingIcon from './icons/LoadingIcon';
+
+type SummaryLibraryProps = {
+    onOpen: (entry: SummaryEntry) => void;
+};
+
+const SummaryLibrary: React.FC<SummaryLibraryProps> = ({ onOpen }) => {
+    const [entries, setEntries] = useState<SummaryEntry[]>([]);
+    const [query, setQuery] = useState('');
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [storage, setStorage] = useState<StorageUsage | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        listSummaries()
+            .then(loaded => {
+                if (!cancelled) setEntries(loaded);
+            })
+            .catch(e => {
+                console.error(e);
+                if (!cancelled) setError('Could not open the summary library. Your browser may be blocking local storage.');
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    useEffect(() => {
+        getStorageUsage(entries).then(setStorage);
+    }, [entries]);
+
+    const visibleEntries = useMemo(() => searchSummaries(entries, query), [entries, query]);
+
+    const handleDelete = async (entry: SummaryEntry) => {
+        if (!window.confirm(`Delete "${entry.title}" from your library?`)) return;
+        try {
+            await deleteSummary(entry.id);
+            setEntries(prev => prev.filter(item => item.id !== entry.id));
+        } catch (e) {
+            console.error(e);
+            setError('Could not delete the summary. Please try again.');
+        }
+    };
+
+    return (
+        <main className="bg-gray-800 rounded-2xl shadow-2xl p-6 sm:p-8 space-y-6">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                <label htmlFor="library-search" className="sr-only">Search saved summaries</label>
+                <input
+                    id="library-search"
+                    type="search"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Search saved summaries..."
+                    className="flex-1 p-3 bg-gray-900 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-200"
+                />
+                {storage && (
+                    <div className="text-sm text-gray-400 sm:text-right" aria-label="Storage usage">
+                        <p>Library: {formatBytes(storage.libraryBytes)}</p>
+                        {storage.usage !== undefined && storage.quota !== undefined && (
+                            <>
+                                <p>{formatBytes(storage.usage)} of {formatBytes(storage.quota)} used</p>
+                                <div className="mt-1 h-1.5 w-40 bg-gray-700 rounded-full overflow-hidden sm:ml-auto">
+                                    <div
+                                        className="h-full bg-blue-500"
+                                        style={{ width: `${Math.min(100, (storage.usage / Math.max(1, storage.quota)) * 100)}%` }}
+                                    />
+                                </div>
+                            </>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {error && (
+                <div className="p-4 bg-red-900/50 border border-red-500 text-red-300 rounded-lg text-center">
+                    {error}
+                </div>
+            )}
+
+            {isLoading ? (
+                <div className="flex justify-center text-gray-400"><LoadingIcon /> Loading library...</div>
+            ) : visibleEntries.length === 0 ? (
+                <p className="text-gray-400 text-center">
+                    {entries.length === 0 ? 'Summaries you generate are saved here automatically.' : 'No summaries match your search.'}
+                </p>
+            ) : (
+                <ul className="space-y-3">
+                    {visibleEntries.map(entry => (
+                        <li key={entry.id} className="bg-gray-900/50 p-4 rounded-lg flex items-start gap-4">
+                            <button
+                                onClick={() => onOpen(entry)}
+                                className="p-3 bg-blue-600 rounded-full hover:bg-blue-700 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                aria-label={`Play "${entry.title}"`}
+                            >
+                                <PlayIcon />
+                            </button>
+                            <div className="flex-1 min-w-0">
+                                <h3 className="font-semibold text-blue-300 truncate">{entry.title}</h3>
+                                <p className="text-xs text-gray-500">
+                                    {new Date(entry.createdAt).toLocaleString()} · {entry.voice} · {entry.summaryModel} · {formatBytes(entrySize(entry))}
+                                </p>
+                                <p className="mt-1 text-sm text-gray-300 line-clamp-2">{entry.summary}</p>
+                            </div>
+                            <button
+                                onClick={() => handleDelete(entry)}
+                                className="px-3 py-1 text-sm text-red-300 border border-red-500/50 rounded-lg hover:bg-red-900/50 transition-colors duration-200"
+                            >
+                                Delete
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {entries.length > 0 && <PodcastExport entries={visibleEntries} />}
+        </main>
+    );
+};
+
+export default SummaryLibrary;
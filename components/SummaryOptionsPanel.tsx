@@ -0,0 +1,83 @@
+import React from 'react';
+import { SUMMARY_LANGUAGES, SUMMARY_STYLES } from '../services/prompts';
+import { SummaryLength, SummaryOptions, SummaryStyle } from '../services/providers/types';
+
+type SummaryOptionsPanelProps = {
+    options: SummaryOptions;
+    onChange: (options: SummaryOptions) => void;
+    disabled: boolean;
+};
+
+const DEFAULT_LENGTH: Record<SummaryLength['unit'], number> = { words: 120, seconds: 45 };
+
+const SummaryOptionsPanel: React.FC<SummaryOptionsPanelProps> = ({ options, onChange, disabled }) => {
+    const selectClass = "bg-gray-900 border-2 border-gray-700 rounded-lg px-2 py-1 text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+    const handleLengthUnitChange = (unit: string) => {
+        if (unit === 'auto') {
+            onChange({ ...options, length: undefined });
+        } else {
+            const typedUnit = unit as SummaryLength['unit'];
+            onChange({ ...options, length: { unit: typedUnit, value: DEFAULT_LENGTH[typedUnit] } });
+        }
+    };
+
+    return (
+        <fieldset disabled={disabled} className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm text-gray-300">
+            <legend className="sr-only">Summary options</legend>
+            <label className="flex flex-col gap-1">
+                Style
+                <select
+                    value={options.style}
+                    onChange={(e) => onChange({ ...options, style: e.target.value as SummaryStyle })}
+                    className={selectClass}
+                >
+                    {SUMMARY_STYLES.map(style => (
+                        <option key={style.value} value={style.value}>{style.label}</option>
+                    ))}
+                </select>
+            </label>
+            <div className="flex flex-col gap-1">
+                <span id="summary-length-label">Length</span>
+                <div className="flex gap-2" role="group" aria-labelledby="summary-length-label">
+                    {options.length && (
+                        <input
+                            type="number"
+                            min={options.length.unit === 'words' ? 20 : 10}
+                            max={options.length.unit === 'words' ? 1000 : 600}
+                            step={options.length.unit === 'words' ? 10 : 5}
+                            value={options.length.value}
+                            onChange={(e) => onChange({ ...options, length: { ...options.length!, value: Number(e.target.value) } })}
+                            className={`${selectClass} w-20`}
+                            aria-label={`Target length in ${options.length.unit}`}
+                        />
+                    )}
+                    <select
+                        value={options.length?.unit ?? 'auto'}
+                        onChange={(e) => handleLengthUnitChange(e.target.value)}
+                        className={`${selectClass} flex-1`}
+                        aria-label="Length unit"
+                    >
+                        <option value="auto">Automatic</option>
+                        <option value="words">words</option>
+                        <option value="seconds">seconds spoken</option>
+                    </select>
+                </div>
+            </div>
+            <label className="flex flex-col gap-1">
+                Language
+                <select
+                    value={options.language}
+                    onChange={(e) => onChange({ ...options, language: e.target.value })}
+                    className={selectClass}
+                >
+                    {SUMMARY_LANGUAGES.map(language => (
+                        <option key={language.code} value={language.code}>{language.name}</option>
+                    ))}
+                </select>
+            </label>
+        </fieldset>
+    );
+};
+
+export default SummaryOptionsPanel;
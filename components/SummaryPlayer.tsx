@@ -0,0 +1,108 @@
+import React, { useState, useEffect, useId } from 'react';
+import { PlayerState, SegmentedPlayer } from '../utils/segmentedPlayer';
+import { formatDuration } from '../utils/textUtils';
+import PlayIcon from './icons/PlayIcon';
+import PauseIcon from './icons/PauseIcon';
+import SkipBackIcon from './icons/SkipBackIcon';
+import SkipForwardIcon from './icons/SkipForwardIcon';
+
+const SKIP_SECONDS = 10;
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2];
+
+type SummaryPlayerProps = {
+    player: SegmentedPlayer;
+    onError?: (message: string) => void;
+};
+
+const SummaryPlayer: React.FC<SummaryPlayerProps> = ({ player, onError }) => {
+    const [state, setState] = useState<PlayerState>(() => player.getState());
+    // The Summarizer and Digest can both be mounted, each with its own player.
+    const rateId = useId();
+
+    useEffect(() => player.subscribe(setState), [player]);
+
+    // The player only notifies on discrete changes; poll the position while audio is running.
+    useEffect(() => {
+        if (!state.isPlaying) return;
+        let frame = requestAnimationFrame(function tick() {
+            setState(player.getState());
+            frame = requestAnimationFrame(tick);
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [player, state.isPlaying]);
+
+    const handleTogglePlayback = async () => {
+        if (state.isPlaying) {
+            player.pause();
+            return;
+        }
+        try {
+            await player.play();
+        } catch (e) {
+            console.error("Error playing audio: ", e);
+            onError?.("Could not play the generated audio.");
+        }
+    };
+
+    const hasAudio = state.duration > 0;
+    const buttonClass = "p-2 bg-gray-700 rounded-full hover:bg-gray-600 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed";
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center space-x-3">
+                <button
+                    onClick={() => player.seek(player.getPosition() - SKIP_SECONDS)}
+                    disabled={!hasAudio}
+                    className={buttonClass}
+                    aria-label={`Back ${SKIP_SECONDS} seconds`}
+                >
+                    <SkipBackIcon />
+                </button>
+                <button
+                    onClick={handleTogglePlayback}
+                    disabled={!hasAudio}
+                    className="p-3 bg-blue-600 rounded-full hover:bg-blue-700 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-wait"
+                >
+                    <span className="sr-only">{state.isPlaying ? 'Pause' : 'Play'}</span>
+                    {state.isPlaying ? <PauseIcon /> : <PlayIcon />}
+                </button>
+                <button
+                    onClick={() => player.seek(player.getPosition() + SKIP_SECONDS)}
+                    disabled={!hasAudio}
+                    className={buttonClass}
+                    aria-label={`Forward ${SKIP_SECONDS} seconds`}
+                >
+                    <SkipForwardIcon />
+                </button>
+                <label className="sr-only" htmlFor={rateId}>Playback speed</label>
+                <select
+                    id={rateId}
+                    value={state.playbackRate}
+                    onChange={(e) => player.setPlaybackRate(Number(e.target.value))}
+                    className="ml-auto bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-gray-200"
+                >
+                    {PLAYBACK_RATES.map(rate => (
+                        <option key={rate} value={rate}>{rate}x</option>
+                    ))}
+                </select>
+            </div>
+            <div className="flex items-center space-x-3 text-sm text-gray-400 tabular-nums">
+                <span>{formatDuration(state.position)}</span>
+                <input
+                    type="range"
+                    min={0}
+                    max={state.duration || 0}
+                    step={0.1}
+                    value={Math.min(state.position, state.duration)}
+                    onChange={(e) => player.seek(Number(e.target.value))}
+                    disabled={!hasAudio}
+                    className="flex-1 accent-blue-500"
+                    aria-label="Seek"
+                />
+                <span>{formatDuration(state.duration)}{hasAudio && !state.isComplete ? '+' : ''}</span>
+            </div>
+        </div>
+    );
+};
+
+export default SummaryPlayer;
@@ -0,0 +1,79 @@
+import React, { useState, useEffect } from 'react';
+import { TimedSentence, findActiveWord } from '../utils/alignment';
+import { SegmentedPlayer } from '../utils/segmentedPlayer';
+
+type SyncedTranscriptProps = {
+    player: SegmentedPlayer;
+    sentences: TimedSentence[];
+    /** Text that has been generated but not yet synthesized, shown after the timed sentences. */
+    pendingText?: string;
+};
+
+const LIST_ITEM = /^\s*(?:[-*•]|\d+[.)])\s+/;
+
+const SyncedTranscript: React.FC<SyncedTranscriptProps> = ({ player, sentences, pendingText }) => {
+    const [position, setPosition] = useState(() => player.getPosition());
+    const [isPlaying, setIsPlaying] = useState(() => player.getState().isPlaying);
+
+    useEffect(() => player.subscribe(state => {
+        setIsPlaying(state.isPlaying);
+        setPosition(state.position);
+    }), [player]);
+
+    useEffect(() => {
+        if (!isPlaying) return;
+        let frame = requestAnimationFrame(function tick() {
+            setPosition(player.getPosition());
+            frame = requestAnimationFrame(tick);
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [player, isPlaying]);
+
+    const active = findActiveWord(sentences, position);
+
+    const handleSeek = async (sentence: TimedSentence) => {
+        player.seek(sentence.start);
+        await player.play();
+    };
+
+    return (
+        <p className="text-gray-300 leading-relaxed">
+            {sentences.map((sentence, sentenceIndex) => {
+                const isActive = sentenceIndex === active.sentence;
+                return (
+                    <React.Fragment key={sentenceIndex}>
+                        {sentenceIndex > 0 && LIST_ITEM.test(sentence.text) && <br />}
+                        <span
+                            role="button"
+                            tabIndex={0}
+                            onClick={() => handleSeek(sentence)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter' || e.key === ' ') {
+                                    e.preventDefault();
+                                    handleSeek(sentence);
+                                }
+                            }}
+                            className={`cursor-pointer rounded transition-colors duration-150 hover:bg-gray-700/60 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                                isActive ? 'bg-blue-900/50 text-white' : ''
+                            }`}
+                            aria-current={isActive ? 'true' : undefined}
+                        >
+                            {sentence.words.map((word, wordIndex) => (
+                                <React.Fragment key={wordIndex}>
+                                    {wordIndex > 0 && ' '}
+                                    <span className={isActive && wordIndex === active.word ? 'bg-purple-500/70 rounded px-0.5 -mx-0.5' : undefined}>
+                                        {word.text}
+                                    </span>
+                                </React.Fragment>
+                            ))}
+                        </span>
+                        {' '}
+                    </React.Fragment>
+                );
+            })}
+            {pendingText && <span className="text-gray-500 whitespace-pre-line">{pendingText}</span>}
+        </p>
+    );
+};
+
+export default SyncedTranscript;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { ConversationRecord } from '../services/conversationLibrary';
+import { downloadBlob } from '../utils/downloadUtils';
+import { conversationToJson, conversationToMarkdown, transcriptToSrt, transcriptToVtt } from '../utils/transcriptExport';
+
+type TranscriptExportProps = {
+    record: ConversationRecord;
+};
+
+const TranscriptExport: React.FC<TranscriptExportProps> = ({ record }) => {
+    const stem = `conversation-${new Date(record.startedAt).toISOString().slice(0, 16).replace(/[:T]/g, '-')}`;
+    const formats = [
+        { label: 'Markdown', extension: 'md', type: 'text/markdown', render: () => conversationToMarkdown(record) },
+        { label: 'JSON', extension: 'json', type: 'application/json', render: () => conversationToJson(record) },
+        { label: 'SRT', extension: 'srt', type: 'application/x-subrip', render: () => transcriptToSrt(record.transcripts) },
+        { label: 'WebVTT', extension: 'vtt', type: 'text/vtt', render: () => transcriptToVtt(record.transcripts) },
+    ];
+
+    return (
+        <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Export transcript">
+            <span className="text-sm text-gray-400">Export:</span>
+            {formats.map(format => (
+                <button
+                    key={format.extension}
+                    onClick={() => downloadBlob(new Blob([format.render()], { type: format.type }), `${stem}.${format.extension}`)}
+                    className="px-3 py-1 text-sm font-medium bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                    {format.label}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+export default TranscriptExport;
@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import {
+    BudgetSettings,
+    USAGE_KINDS,
+    UsageDay,
+    UsageTotals,
+    clearUsageHistory,
+    estimateDayCost,
+    getBudgetStatus,
+    getUsageHistory,
+    loadBudgetSettings,
+    saveBudgetSettings,
+    subscribeToUsage,
+} from '../services/telemetry';
+
+const formatUsd = (usd: number) => `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+const formatAverage = (total: number, samples: number) => (samples > 0 ? `${Math.round(total / samples)} ms` : '–');
+
+/** Adds up one day's totals across summary, speech and live calls. */
+const dayTotals = (day: UsageDay): UsageTotals =>
+    USAGE_KINDS.map(kind => day.byKind[kind]).reduce((sum, totals) => {
+        (Object.keys(totals) as (keyof UsageTotals)[]).forEach(field => {
+            sum[field] = (sum[field] ?? 0) + totals[field];
+        });
+        return sum;
+    }, {} as UsageTotals);
+
+/** Per-day API usage and estimated cost, recorded in this browser, with the daily budget. */
+const UsageDashboard: React.FC = () => {
+    const [history, setHistory] = useState<UsageDay[]>(() => [...getUsageHistory()]);
+    const [budget, setBudget] = useState<BudgetSettings>(loadBudgetSettings);
+    const [status, setStatus] = useState(getBudgetStatus);
+
+    useEffect(() => subscribeToUsage(() => {
+        setHistory([...getUsageHistory()]);
+        setStatus(getBudgetStatus());
+    }), []);
+
+    useEffect(() => {
+        saveBudgetSettings(budget);
+    }, [budget]);
+
+    const updateBudget = (field: keyof BudgetSettings) => (e: React.ChangeEvent<HTMLInputElement>) => {
+        const value = Number(e.target.value);
+        setBudget(prev => ({ ...prev, [field]: Number.isFinite(value) && value > 0 ? value : 0 }));
+    };
+
+    const handleClear = () => {
+        if (window.confirm('Forget all recorded usage? Budget settings are kept.')) {
+            clearUsageHistory();
+        }
+    };
+
+    const inputClass = "bg-gray-900 border-2 border-gray-700 rounded-lg px-2 py-1 text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+    return (
+        <main className="bg-gray-800 rounded-2xl shadow-2xl p-6 sm:p-8 space-y-6">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <h2 className="text-2xl font-bold text-blue-300">Usage</h2>
+                <p className="text-gray-300">
+                    Today: <span className="font-semibold">{formatUsd(status.spentUsd)}</span>
+                    {status.settings.capAtUsd > 0 && <> of {formatUsd(status.settings.capAtUsd)}</>}
+                </p>
+            </div>
+            <p className="text-sm text-gray-400">
+                Costs are estimated in this browser from token counts and list prices, so they will not match
+                your bill exactly. Usage from other devices or apps sharing the key is not included.
+            </p>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm text-gray-300">
+                <label className="flex flex-col gap-1">
+                    Warn at (USD per day, 0 for never)
+                    <input type="number" min={0} step={0.01} value={budget.warnAtUsd} onChange={updateBudget('warnAtUsd')} className={inputClass} />
+                </label>
+                <label className="flex flex-col gap-1">
+                    Stop new requests at (USD per day, 0 for never)
+                    <input type="number" min={0} step={0.01} value={budget.capAtUsd} onChange={updateBudget('capAtUsd')} className={inputClass} />
+                </label>
+            </div>
+
+            {history.length === 0 ? (
+                <p className="text-center text-gray-400">No API calls recorded yet.</p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left text-gray-300">
+                        <thead className="text-gray-400 border-b border-gray-700">
+                            <tr>
+                                <th scope="col" className="py-2 pr-4">Day</th>
+                                <th scope="col" className="py-2 pr-4">Calls</th>
+                                <th scope="col" className="py-2 pr-4">Tokens in / out</th>
+                                <th scope="col" className="py-2 pr-4">Speech chars</th>
+                                <th scope="col" className="py-2 pr-4">Live in / out</th>
+                                <th scope="col" className="py-2 pr-4">First byte</th>
+                                <th scope="col" className="py-2 pr-4">Latency</th>
+                                <th scope="col" className="py-2">Est. cost</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {history.map(day => {
+                                const totals = dayTotals(day);
+                                return (
+                                    <tr key={day.date} className="border-b border-gray-700/50">
+                                        <th scope="row" className="py-2 pr-4 font-medium">{day.date}</th>
+                                        <td className="py-2 pr-4">
+                                            {totals.calls}
+                                            {totals.failures > 0 && <span className="text-red-300"> ({totals.failures} failed)</span>}
+                                        </td>
+                                        <td className="py-2 pr-4">{totals.promptTokens.toLocaleString()} / {totals.responseTokens.toLocaleString()}</td>
+                                        <td className="py-2 pr-4">{totals.ttsCharacters.toLocaleString()}</td>
+                                        <td className="py-2 pr-4">{Math.round(totals.liveInputSeconds)} s / {Math.round(totals.liveOutputSeconds)} s</td>
+                                        <td className="py-2 pr-4">{formatAverage(totals.ttfbMs, totals.ttfbSamples)}</td>
+                                        <td className="py-2 pr-4">{formatAverage(totals.latencyMs, totals.latencySamples)}</td>
+                                        <td className="py-2">{formatUsd(estimateDayCost(day))}</td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            <button
+                onClick={handleClear}
+                disabled={history.length === 0}
+                className="px-4 py-2 text-sm font-medium text-gray-300 border border-gray-600 rounded-lg hover:bg-gray-700 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                Clear history
+            </button>
+        </main>
+    );
+};
+
+export default UsageDashboard;
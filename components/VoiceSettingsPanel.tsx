@@ -0,0 +1,167 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { generateSpeech, getDefaultVoices, getVoiceOptions } from '../services/geminiService';
+import { errorMessage } from '../services/errors';
+import { getAudioEngine } from '../services/audioEngine';
+import { SPEAKING_PACES, SPEAKING_STYLES } from '../services/prompts';
+import { SpeakingPace, SpeakingStyle, VoiceSettings } from '../services/providers/types';
+import { decode, decodeAudioData } from '../utils/audioUtils';
+import PlayIcon from './icons/PlayIcon';
+import StopIcon from './icons/StopIcon';
+import LoadingIcon from './icons/LoadingIcon';
+
+const PREVIEW_TEXT = "Good morning. Here is how your news briefs and conversations will sound.";
+
+type VoiceSettingsPanelProps = {
+    settings: VoiceSettings;
+    onChange: (settings: VoiceSettings) => void;
+};
+
+const VoiceSettingsPanel: React.FC<VoiceSettingsPanelProps> = ({ settings, onChange }) => {
+    const [previewingVoice, setPreviewingVoice] = useState<string | null>(null);
+    const [loadingVoice, setLoadingVoice] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // Previews duck anything else that is playing, so the voice can be heard clearly.
+    const [previewQueue] = useState(() => getAudioEngine().createQueue('preview', {
+        ducksOthers: true,
+        onIdle: () => setPreviewingVoice(null),
+    }));
+    // Keyed by voice, style and pace so switching back and forth doesn't call the API again.
+    const previewCacheRef = useRef<Map<string, string>>(new Map());
+
+    const stopPreview = () => {
+        previewQueue.flush();
+        setPreviewingVoice(null);
+    };
+
+    useEffect(() => () => previewQueue.flush(), [previewQueue]);
+
+    const handlePreview = async (voice: string) => {
+        if (previewingVoice === voice) {
+            stopPreview();
+            return;
+        }
+        stopPreview();
+        setError(null);
+
+        const previewSettings = { ...settings, voice };
+        const cacheKey = `${voice}|${settings.speakingStyle}|${settings.pace}`;
+        try {
+            const audioContext = await getAudioEngine().getContext();
+
+            let audioData = previewCacheRef.current.get(cacheKey);
+            if (!audioData) {
+                setLoadingVoice(voice);
+                audioData = await generateSpeech(PREVIEW_TEXT, { style: 'brief', language: 'en', voice: previewSettings });
+                previewCacheRef.current.set(cacheKey, audioData);
+            }
+
+            previewQueue.enqueue(await decodeAudioData(decode(audioData), audioContext, 24000, 1));
+            setPreviewingVoice(voice);
+        } catch (e) {
+            console.error(e);
+            setError(errorMessage(e, 'Could not load a preview of that voice.'));
+        } finally {
+            setLoadingVoice(null);
+        }
+    };
+
+    const defaults = getDefaultVoices();
+
+    const selectClass = "bg-gray-900 border-2 border-gray-700 rounded-lg px-2 py-1 text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+    return (
+        <section className="bg-gray-800 rounded-2xl shadow-2xl p-6 mb-6 space-y-4" aria-labelledby="voice-settings-heading">
+            <h2 id="voice-settings-heading" className="text-xl font-bold text-blue-300">Voice settings</h2>
+            <p className="text-sm text-gray-400">Used for summaries and the Live Conversation. Saved in this browser.</p>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm text-gray-300">
+                <label className="flex flex-col gap-1">
+                    Speaking style
+                    <select
+                        value={settings.speakingStyle}
+                        onChange={(e) => onChange({ ...settings, speakingStyle: e.target.value as SpeakingStyle })}
+                        className={selectClass}
+                    >
+                        {SPEAKING_STYLES.map(style => (
+                            <option key={style.value} value={style.value}>{style.label}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex flex-col gap-1">
+                    Pace
+                    <select
+                        value={settings.pace}
+                        onChange={(e) => onChange({ ...settings, pace: e.target.value as SpeakingPace })}
+                        className={selectClass}
+                    >
+                        {SPEAKING_PACES.map(pace => (
+                            <option key={pace.value} value={pace.value}>{pace.label}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            <fieldset>
+                <legend className="text-sm text-gray-300 mb-2">Voice</legend>
+                <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-64 overflow-y-auto pr-1">
+                    <li
+                        className={`flex items-center gap-3 p-2 rounded-lg border ${
+                            !settings.voice ? 'border-purple-500 bg-purple-900/30' : 'border-gray-700'
+                        }`}
+                    >
+                        <label className="flex-1 flex items-center gap-2 cursor-pointer">
+                            <input
+                                type="radio"
+                                name="voice"
+                                value=""
+                                checked={!settings.voice}
+                                onChange={() => onChange({ ...settings, voice: undefined })}
+                                className="accent-purple-500"
+                            />
+                            <span className="font-medium text-gray-200">Default</span>
+                            <span className="text-xs text-gray-400">{defaults.speech} for summaries, {defaults.live} for conversations</span>
+                        </label>
+                    </li>
+                    {getVoiceOptions().map(option => (
+                        <li
+                            key={option.name}
+                            className={`flex items-center gap-3 p-2 rounded-lg border ${
+                                settings.voice === option.name ? 'border-purple-500 bg-purple-900/30' : 'border-gray-700'
+                            }`}
+                        >
+                            <label className="flex-1 flex items-center gap-2 cursor-pointer">
+                                <input
+                                    type="radio"
+                                    name="voice"
+                                    value={option.name}
+                                    checked={settings.voice === option.name}
+                                    onChange={() => onChange({ ...settings, voice: option.name })}
+                                    className="accent-purple-500"
+                                />
+                                <span className="font-medium text-gray-200">{option.name}</span>
+                                <span className="text-xs text-gray-400">{option.description}</span>
+                            </label>
+                            <button
+                                onClick={() => handlePreview(option.name)}
+                                disabled={loadingVoice !== null}
+                                className="p-1 bg-gray-700 rounded-full hover:bg-gray-600 transition-colors duration-200 disabled:opacity-50 [&_svg]:h-5 [&_svg]:w-5 [&_svg]:m-0"
+                                aria-label={previewingVoice === option.name ? `Stop preview of ${option.name}` : `Preview ${option.name}`}
+                            >
+                                {loadingVoice === option.name ? <LoadingIcon /> : previewingVoice === option.name ? <StopIcon /> : <PlayIcon />}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            </fieldset>
+
+            {error && (
+                <div className="p-3 bg-red-900/50 border border-red-500 text-red-300 rounded-lg text-center text-sm">
+                    {error}
+                </div>
+            )}
+        </section>
+    );
+};
+
+export default VoiceSettingsPanel;
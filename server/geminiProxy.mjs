@@ -0,0 +1,239 @@
+// A small proxy that keeps the Gemini API key on the server. The browser asks it for a
+// short-lived token and uses that in place of a key; REST calls and live WebSockets are
+// forwarded to Google with the real key swapped in. No dependencies beyond Node 20.
+//
+//   GEMINI_API_KEY=... npm run proxy
+//
+// Reads `.env.local` when present. PROXY_HOST (default 127.0.0.1), PROXY_PORT (default 8788) and
+// PROXY_ALLOWED_ORIGINS (comma separated, default http://localhost:3000) configure it. Set
+// PROXY_SECRET to let clients without an Origin, such as scripts, get tokens by sending it in
+// an `x-proxy-secret` header.
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import http from 'node:http';
+import https from 'node:https';
+import { pathToFileURL } from 'node:url';
+
+const DEFAULT_UPSTREAM = 'https://generativelanguage.googleapis.com';
+const DEFAULT_TOKEN_TTL_MS = 10 * 60 * 1000;
+const TOKEN_PREFIX = 'proxy.';
+
+// The SDK joins paths onto the base URL with an extra slash, e.g. `//ws/...`; see `requestUrl`.
+const REST_PATH = /^\/v1(alpha|beta)?\//;
+const LIVE_PATH = /^\/ws\/google\.ai\.generativelanguage\.v1(alpha|beta)?\.GenerativeService\.BidiGenerateContent$/;
+
+// Hop-by-hop headers, and ones that would identify the browser session to Google.
+const DROPPED_HEADERS = new Set(['host', 'connection', 'keep-alive', 'transfer-encoding', 'origin', 'referer', 'cookie', 'x-goog-api-key', 'x-proxy-secret']);
+
+/**
+ * Issues tokens of the form `proxy.<expiry>.<signature>`, signed with a secret that only lives
+ * as long as the process, so restarting the proxy revokes every token.
+ */
+export function createTokenIssuer(ttlMs = DEFAULT_TOKEN_TTL_MS, secret = randomBytes(32)) {
+  const sign = (expiresAt) => createHmac('sha256', secret).update(String(expiresAt)).digest('base64url');
+
+  const issue = (now = Date.now()) => {
+    const expiresAt = now + ttlMs;
+    return { token: `${TOKEN_PREFIX}${expiresAt}.${sign(expiresAt)}`, expiresAt };
+  };
+
+  const verify = (token, now = Date.now()) => {
+    if (typeof token !== 'string' || !token.startsWith(TOKEN_PREFIX)) return false;
+    const [expiry, signature = ''] = token.slice(TOKEN_PREFIX.length).split('.');
+    const expiresAt = Number(expiry);
+    if (!Number.isFinite(expiresAt) || expiresAt <= now) return false;
+    const expected = Buffer.from(sign(expiresAt));
+    const actual = Buffer.from(signature);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  };
+
+  return { issue, verify };
+}
+
+function forwardedHeaders(headers) {
+  return Object.fromEntries(Object.entries(headers).filter(([name]) => !DROPPED_HEADERS.has(name)));
+}
+
+function requestUrl(req) {
+  // Collapsed first, or `//ws/...` would parse as a URL with the host `ws`.
+  return new URL((req.url ?? '/').replace(/^\/+/, '/'), 'http://proxy');
+}
+
+function sendError(res, status, message, headers = {}) {
+  res.writeHead(status, { ...headers, 'content-type': 'application/json' });
+  // Shaped like a Google API error so the app classifies it the same way.
+  res.end(JSON.stringify({ error: { code: status, message, status: status === 401 ? 'UNAUTHENTICATED' : 'PERMISSION_DENIED' } }));
+}
+
+function rejectUpgrade(socket, status, reason) {
+  socket.end(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
+
+/**
+ * Creates the proxy server; call `listen` on it. Requests are only accepted from
+ * `allowedOrigins`, and only with a token from `POST /token`, which is issued to pages from
+ * those origins or to clients sending `sharedSecret`.
+ */
+export function createGeminiProxy({
+  apiKey,
+  upstream = DEFAULT_UPSTREAM,
+  allowedOrigins = ['http://localhost:3000'],
+  tokenTtlMs = DEFAULT_TOKEN_TTL_MS,
+  sharedSecret = '',
+}) {
+  if (!apiKey) throw new Error('GEMINI_API_KEY is not set.');
+  const tokens = createTokenIssuer(tokenTtlMs);
+  const upstreamUrl = new URL(upstream);
+  const transport = upstreamUrl.protocol === 'https:' ? https : http;
+  // Requests without an Origin come from tools like curl, not from another site's page; they
+  // still need a token, which only `mayIssueToken` hands out.
+  const isAllowedOrigin = (origin) => !origin || allowedOrigins.includes(origin);
+
+  const hasSharedSecret = (value) => {
+    if (!sharedSecret || typeof value !== 'string') return false;
+    // Hashed first so the comparison takes the same time whatever the lengths.
+    const digest = (text) => createHash('sha256').update(text).digest();
+    return timingSafeEqual(digest(value), digest(sharedSecret));
+  };
+
+  // Anyone who can reach the port could otherwise spend the key.
+  const mayIssueToken = (req) =>
+    req.headers.origin ? allowedOrigins.includes(req.headers.origin) : hasSharedSecret(req.headers['x-proxy-secret']);
+
+  const corsHeaders = (origin) => (origin ? { 'access-control-allow-origin': origin, vary: 'Origin' } : {});
+
+  const upstreamOptions = (path, headers) => ({
+    protocol: upstreamUrl.protocol,
+    hostname: upstreamUrl.hostname,
+    port: upstreamUrl.port || undefined,
+    path,
+    headers: { ...forwardedHeaders(headers), host: upstreamUrl.host },
+  });
+
+  const handleRequest = (req, res) => {
+    const { origin } = req.headers;
+    if (!isAllowedOrigin(origin)) {
+      sendError(res, 403, `Origin ${origin} is not allowed by the proxy.`);
+      return;
+    }
+    const cors = corsHeaders(origin);
+    const url = requestUrl(req);
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        ...cors,
+        'access-control-allow-methods': 'GET, POST, OPTIONS',
+        'access-control-allow-headers': req.headers['access-control-request-headers'] ?? '',
+        'access-control-max-age': '600',
+      });
+      res.end();
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/token') {
+      if (!mayIssueToken(req)) {
+        sendError(res, 403, 'Tokens are only issued to allowed origins or with the proxy secret.', cors);
+        return;
+      }
+      res.writeHead(200, { ...cors, 'content-type': 'application/json', 'cache-control': 'no-store' });
+      res.end(JSON.stringify(tokens.issue()));
+      return;
+    }
+
+    if (!REST_PATH.test(url.pathname)) {
+      sendError(res, 404, `Not a Gemini API path: ${url.pathname}`, cors);
+      return;
+    }
+    if (!tokens.verify(req.headers['x-goog-api-key'])) {
+      sendError(res, 401, 'The proxy token is missing or has expired.', cors);
+      return;
+    }
+
+    const options = upstreamOptions(`${url.pathname}${url.search}`, req.headers);
+    const upstreamReq = transport.request({
+      ...options,
+      method: req.method,
+      headers: { ...options.headers, 'x-goog-api-key': apiKey },
+    }, (upstreamRes) => {
+      // Streamed responses (`alt=sse`) are piped through as they arrive.
+      res.writeHead(upstreamRes.statusCode ?? 502, { ...forwardedHeaders(upstreamRes.headers), ...cors });
+      upstreamRes.pipe(res);
+    });
+    upstreamReq.on('error', (error) => {
+      console.error('Upstream request failed:', error.message);
+      if (!res.headersSent) sendError(res, 502, 'The proxy could not reach the Gemini API.', cors);
+      else res.destroy();
+    });
+    req.pipe(upstreamReq);
+  };
+
+  const handleUpgrade = (req, socket, head) => {
+    socket.on('error', () => socket.destroy());
+    const url = requestUrl(req);
+    if (!isAllowedOrigin(req.headers.origin)) {
+      rejectUpgrade(socket, 403, 'Forbidden');
+      return;
+    }
+    if (!LIVE_PATH.test(url.pathname)) {
+      rejectUpgrade(socket, 404, 'Not Found');
+      return;
+    }
+    if (!tokens.verify(url.searchParams.get('key'))) {
+      rejectUpgrade(socket, 401, 'Unauthorized');
+      return;
+    }
+    url.searchParams.set('key', apiKey);
+
+    const options = upstreamOptions(`${url.pathname}${url.search}`, req.headers);
+    const upstreamReq = transport.request({
+      ...options,
+      method: 'GET',
+      headers: { ...options.headers, connection: 'Upgrade', upgrade: 'websocket' },
+    });
+    upstreamReq.on('upgrade', (upstreamRes, upstreamSocket, upstreamHead) => {
+      const lines = [`HTTP/1.1 ${upstreamRes.statusCode} ${upstreamRes.statusMessage}`];
+      for (let i = 0; i < upstreamRes.rawHeaders.length; i += 2) {
+        lines.push(`${upstreamRes.rawHeaders[i]}: ${upstreamRes.rawHeaders[i + 1]}`);
+      }
+      socket.write(`${lines.join('\r\n')}\r\n\r\n`);
+      if (upstreamHead.length) socket.write(upstreamHead);
+      if (head.length) upstreamSocket.write(head);
+      upstreamSocket.on('error', () => socket.destroy());
+      socket.on('close', () => upstreamSocket.destroy());
+      upstreamSocket.on('close', () => socket.destroy());
+      upstreamSocket.pipe(socket);
+      socket.pipe(upstreamSocket);
+    });
+    upstreamReq.on('response', (upstreamRes) => {
+      rejectUpgrade(socket, upstreamRes.statusCode ?? 502, upstreamRes.statusMessage ?? 'Bad Gateway');
+      upstreamRes.resume();
+    });
+    upstreamReq.on('error', (error) => {
+      console.error('Upstream WebSocket failed:', error.message);
+      rejectUpgrade(socket, 502, 'Bad Gateway');
+    });
+    upstreamReq.end();
+  };
+
+  const server = http.createServer(handleRequest);
+  server.on('upgrade', handleUpgrade);
+  return server;
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+  const host = process.env.PROXY_HOST || '127.0.0.1';
+  const port = Number(process.env.PROXY_PORT) || 8788;
+  const allowedOrigins = (process.env.PROXY_ALLOWED_ORIGINS ?? 'http://localhost:3000')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+  createGeminiProxy({
+    apiKey: process.env.GEMINI_API_KEY,
+    allowedOrigins,
+    sharedSecret: process.env.PROXY_SECRET,
+  }).listen(port, host, () => {
+    console.log(`Gemini proxy listening on http://${host}:${port} for ${allowedOrigins.join(', ')}`);
+  });
+}
@@ -0,0 +1,187 @@
+import { getArticleFetcher } from './articleFetcher';
+
+export type ExtractedArticle = {
+    title: string;
+    byline?: string;
+    /** As published by the source; usually ISO 8601. */
+    publishedAt?: string;
+    /** Main body, one paragraph per line. */
+    text: string;
+    /** URL or file name the article came from. */
+    source?: string;
+};
+
+const BOILERPLATE_SELECTORS = [
+    // Only form controls: ASP.NET WebForms and many CMS templates wrap the whole page in a <form>.
+    'script', 'style', 'noscript', 'template', 'iframe', 'input', 'select', 'textarea', 'button', 'label', 'svg',
+    'nav', 'aside', 'footer',
+    '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+    '[aria-hidden="true"]', '[hidden]',
+];
+const BOILERPLATE_PATTERN = /(^|[\s_-])(ads?|advert\w*|sponsor\w*|promo\w*|newsletter|subscribe|share|social|cookie\w*|related|recommend\w*|comments?|outbrain|taboola)($|[\s_-])/i;
+const BLOCK_SELECTOR = 'p, h1, h2, h3, h4, li, blockquote, pre';
+
+const metaContent = (doc: Document, selectors: string[]): string | undefined => {
+    for (const selector of selectors) {
+        const element = doc.querySelector(selector);
+        const value = element?.getAttribute('content') ?? element?.getAttribute('datetime') ?? element?.textContent;
+        if (value?.trim()) return value.trim();
+    }
+    return undefined;
+};
+
+const readMetadata = (doc: Document) => ({
+    title: metaContent(doc, ['meta[property="og:title"]', 'meta[name="twitter:title"]', 'h1']) ?? doc.title.trim(),
+    byline: metaContent(doc, ['meta[name="author"]', 'meta[property="article:author"]', '[rel="author"]', '[itemprop="author"]', '.byline']),
+    publishedAt: metaContent(doc, [
+        'meta[property="article:published_time"]',
+        'meta[name="date"]',
+        'meta[itemprop="datePublished"]',
+        'time[datetime]',
+    ]),
+});
+
+const stripBoilerplate = (root: ParentNode) => {
+    root.querySelectorAll(BOILERPLATE_SELECTORS.join(',')).forEach(element => element.remove());
+    root.querySelectorAll<HTMLElement>('[class], [id]').forEach(element => {
+        const names = `${element.getAttribute('class') ?? ''} ${element.id}`;
+        // Never drop the article container itself because of a loose class match.
+        if (BOILERPLATE_PATTERN.test(names) && !element.querySelector('article') && element.tagName !== 'ARTICLE') {
+            element.remove();
+        }
+    });
+};
+
+const collectParagraphs = (root: ParentNode): string => {
+    const blocks = Array.from(root.querySelectorAll(BLOCK_SELECTOR))
+        // Skip blocks nested in another collected block (e.g. <p> inside <blockquote>) to avoid duplicates.
+        .filter(element => !element.parentElement?.closest(BLOCK_SELECTOR))
+        .map(element => element.textContent?.replace(/\s+/g, ' ').trim() ?? '')
+        .filter(Boolean);
+    return blocks.length > 0 ? blocks.join('\n') : (root.textContent ?? '').replace(/\s+/g, ' ').trim();
+};
+
+export const extractFromHtml = async (html: string, url?: string): Promise<ExtractedArticle> => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    if (url) {
+        const base = doc.createElement('base');
+        base.href = url;
+        doc.head.prepend(base);
+    }
+    const metadata = readMetadata(doc);
+    stripBoilerplate(doc);
+
+    const { Readability } = await import('@mozilla/readability');
+    const parsed = new Readability(doc.cloneNode(true) as Document).parse();
+
+    let text = '';
+    if (parsed?.content) {
+        const content = new DOMParser().parseFromString(parsed.content, 'text/html');
+        text = collectParagraphs(content.body);
+    }
+    if (!text) {
+        text = collectParagraphs(doc.querySelector('article, main, [role="main"]') ?? doc.body);
+    }
+    if (!text) {
+        throw new Error('No article text could be found on that page.');
+    }
+
+    return {
+        title: parsed?.title?.trim() || metadata.title || 'Untitled article',
+        byline: parsed?.byline?.trim() || metadata.byline,
+        publishedAt: parsed?.publishedTime?.trim() || metadata.publishedAt,
+        text,
+        source: url,
+    };
+};
+
+export const extractFromPdf = async (data: ArrayBuffer, source?: string): Promise<ExtractedArticle> => {
+    const pdfjs = await import('pdfjs-dist');
+    if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+        const { default: workerUrl } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+        pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+    }
+
+    const pdf = await pdfjs.getDocument({ data }).promise;
+    const lines: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        let line = '';
+        for (const item of content.items) {
+            if (!('str' in item)) continue;
+            line += item.str;
+            if (item.hasEOL) {
+                lines.push(line.trim());
+                line = '';
+            }
+        }
+        lines.push(line.trim());
+    }
+
+    const metadata = await pdf.getMetadata().catch(() => null);
+    const info = (metadata?.info ?? {}) as { Title?: string; Author?: string; CreationDate?: string };
+    const text = lines.filter(Boolean).join('\n');
+    if (!text) {
+        throw new Error('That PDF has no selectable text. Scanned documents are not supported.');
+    }
+
+    return {
+        title: info.Title?.trim() || lines.find(Boolean) || 'Untitled document',
+        byline: info.Author?.trim() || undefined,
+        text,
+        source,
+    };
+};
+
+export const extractFromText = (text: string, source?: string): ExtractedArticle => {
+    const trimmed = text.trim();
+    const [firstLine = ''] = trimmed.split('\n');
+    return {
+        title: firstLine.length <= 120 ? firstLine.trim() : source ?? 'Untitled article',
+        text: trimmed,
+        source,
+    };
+};
+
+const isPdf = (contentType: string, name: string) => contentType.includes('pdf') || /\.pdf$/i.test(name);
+const isHtml = (contentType: string, name: string) => contentType.includes('html') || /\.x?html?$/i.test(name);
+
+export const extractFromFile = async (file: File): Promise<ExtractedArticle> => {
+    if (isPdf(file.type, file.name)) {
+        return extractFromPdf(await file.arrayBuffer(), file.name);
+    }
+    if (isHtml(file.type, file.name)) {
+        return { ...(await extractFromHtml(await file.text())), source: file.name };
+    }
+    if (file.type.startsWith('text/') || /\.(txt|md)$/i.test(file.name)) {
+        return extractFromText(await file.text(), file.name);
+    }
+    throw new Error(`Unsupported file type: ${file.name}. Use an HTML, PDF or .txt file.`);
+};
+
+export const fetchArticle = async (url: string): Promise<ExtractedArticle> => {
+    const document = await getArticleFetcher()(url);
+    if (isPdf(document.contentType, document.url)) {
+        return extractFromPdf(document.body, document.url);
+    }
+    const text = new TextDecoder().decode(document.body);
+    if (isHtml(document.contentType, document.url) || /^\s*</.test(text)) {
+        return extractFromHtml(text, document.url);
+    }
+    return extractFromText(text, document.url);
+};
+
+export const isUrl = (value: string): boolean => /^https?:\/\/\S+$/i.test(value.trim());
+
+/** Renders an extracted article as the plain text the summarizer receives. */
+export const articleToText = (article: ExtractedArticle): string => {
+    const details = [
+        article.byline && `By ${article.byline}`,
+        article.publishedAt && (Number.isNaN(Date.parse(article.publishedAt))
+            ? article.publishedAt
+            : new Date(article.publishedAt).toLocaleDateString(undefined, { dateStyle: 'long' })),
+    ].filter(Boolean).join(' · ');
+    const body = article.text.startsWith(article.title) ? article.text.slice(article.title.length).trim() : article.text;
+    return [article.title, details, '', body].filter((line, index) => index !== 1 || line).join('\n');
+};
@@ -0,0 +1,46 @@
+import { getArticleProxyUrl } from './config';
+
+export type FetchedDocument = {
+    /** Final URL after redirects, used to resolve relative links. */
+    url: string;
+    contentType: string;
+    body: ArrayBuffer;
+};
+
+/** Retrieves a document by URL. Swap it out with `setArticleFetcher` to serve fixtures in tests. */
+export type ArticleFetcher = (url: string) => Promise<FetchedDocument>;
+
+/**
+ * Fetches directly, or through a CORS proxy when one is configured. A proxy template can
+ * place the target with `{url}`; otherwise the encoded URL is appended.
+ */
+export const createHttpFetcher = (proxyUrl?: string): ArticleFetcher => async (url: string) => {
+    const requestUrl = !proxyUrl
+        ? url
+        : proxyUrl.includes('{url}')
+            ? proxyUrl.replace('{url}', encodeURIComponent(url))
+            : `${proxyUrl}${encodeURIComponent(url)}`;
+
+    const response = await fetch(requestUrl);
+    if (!response.ok) {
+        throw new Error(`Request for ${url} failed with status ${response.status}.`);
+    }
+    return {
+        url: proxyUrl ? url : response.url || url,
+        contentType: response.headers.get('content-type') ?? '',
+        body: await response.arrayBuffer(),
+    };
+};
+
+let activeFetcher: ArticleFetcher | null = null;
+
+export const getArticleFetcher = (): ArticleFetcher => {
+    if (!activeFetcher) {
+        activeFetcher = createHttpFetcher(getArticleProxyUrl());
+    }
+    return activeFetcher;
+};
+
+export const setArticleFetcher = (fetcher: ArticleFetcher | null): void => {
+    activeFetcher = fetcher;
+};
@@ -0,0 +1,199 @@
+import { UnsupportedBrowserError } from './errors';
+
+/** Everything the app plays goes through one of these, so each can be ducked on its own. */
+export type AudioChannel = 'summary' | 'preview' | 'live';
+
+const CHANNELS: AudioChannel[] = ['summary', 'preview', 'live'];
+const OUTPUT_SAMPLE_RATE = 24000;
+// Level other channels drop to while a ducking queue is playing, and how quickly they get there.
+const DUCKED_GAIN = 0.2;
+const DUCK_TIME_CONSTANT = 0.08;
+
+export type PlaybackQueueOptions = {
+    /** Lowers every other channel while this queue has audio playing. */
+    ducksOthers?: boolean;
+    /** Called whenever the last queued buffer finishes or the queue is flushed. */
+    onIdle?: () => void;
+};
+
+export type PlaybackQueue = {
+    /** Schedules a buffer straight after the ones already queued. Returns seconds until it starts. */
+    enqueue: (buffer: AudioBuffer) => number;
+    /** Stops and discards everything queued, e.g. when the model is interrupted. */
+    flush: () => void;
+    isPlaying: () => boolean;
+};
+
+type SinkAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+/**
+ * Owns the app's single output AudioContext. Players connect to a channel's output rather than
+ * the destination, so global volume, ducking and the output device apply to everything that
+ * plays. The context is created on first use, which should be inside a click handler so the
+ * browser lets it start.
+ */
+export const createAudioEngine = () => {
+    let context: SinkAudioContext | null = null;
+    let master: GainNode | null = null;
+    const channelGains = new Map<AudioChannel, GainNode>();
+    // Number of ducking queues currently playing on each channel.
+    const duckers = new Map<AudioChannel, number>();
+    let volume = 1;
+    let sinkId = '';
+
+    const ensureContext = (): SinkAudioContext => {
+        if (context) return context;
+        const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+        context = new AudioContextClass({ sampleRate: OUTPUT_SAMPLE_RATE }) as SinkAudioContext;
+        master = context.createGain();
+        master.gain.value = volume;
+        master.connect(context.destination);
+        CHANNELS.forEach(channel => {
+            const gain = context!.createGain();
+            gain.connect(master!);
+            channelGains.set(channel, gain);
+        });
+        if (sinkId) {
+            context.setSinkId?.(sinkId).catch(e => console.error("Error selecting the output device: ", e));
+        }
+        return context;
+    };
+
+    /** The shared context, resumed if the browser suspended it. */
+    const getContext = async (): Promise<AudioContext> => {
+        const audioContext = ensureContext();
+        if (audioContext.state === 'suspended') {
+            await audioContext.resume();
+        }
+        return audioContext;
+    };
+
+    /** The node a channel's sources should connect to. */
+    const getOutput = (channel: AudioChannel): AudioNode => {
+        ensureContext();
+        return channelGains.get(channel)!;
+    };
+
+    const isDucked = (channel: AudioChannel): boolean =>
+        [...duckers].some(([other, count]) => other !== channel && count > 0);
+
+    const applyDucking = () => {
+        if (!context) return;
+        channelGains.forEach((gain, channel) => {
+            gain.gain.setTargetAtTime(isDucked(channel) ? DUCKED_GAIN : 1, context!.currentTime, DUCK_TIME_CONSTANT);
+        });
+    };
+
+    const setDucking = (channel: AudioChannel, isActive: boolean) => {
+        duckers.set(channel, Math.max(0, (duckers.get(channel) ?? 0) + (isActive ? 1 : -1)));
+        applyDucking();
+    };
+
+    /**
+     * A queue that plays buffers back to back without gaps, for audio that arrives in pieces and
+     * is never sought through, like a live reply or a voice preview.
+     */
+    const createQueue = (channel: AudioChannel, { ducksOthers = false, onIdle }: PlaybackQueueOptions = {}): PlaybackQueue => {
+        const sources = new Set<AudioBufferSourceNode>();
+        let nextStartTime = 0;
+
+        const setActive = (isActive: boolean) => {
+            if (ducksOthers) setDucking(channel, isActive);
+        };
+
+        const enqueue = (buffer: AudioBuffer): number => {
+            const audioContext = ensureContext();
+            nextStartTime = Math.max(nextStartTime, audioContext.currentTime);
+            const source = audioContext.createBufferSource();
+            source.buffer = buffer;
+            source.connect(getOutput(channel));
+            source.addEventListener('ended', () => {
+                if (!sources.delete(source)) return;
+                if (sources.size === 0) {
+                    setActive(false);
+                    onIdle?.();
+                }
+            });
+            if (sources.size === 0) setActive(true);
+            const startsIn = nextStartTime - audioContext.currentTime;
+            source.start(nextStartTime);
+            nextStartTime += buffer.duration;
+            sources.add(source);
+            return startsIn;
+        };
+
+        const flush = () => {
+            const wasPlaying = sources.size > 0;
+            // Cleared first so the `ended` events the stops fire are ignored.
+            const stopped = [...sources];
+            sources.clear();
+            stopped.forEach(source => source.stop());
+            nextStartTime = 0;
+            if (wasPlaying) {
+                setActive(false);
+                onIdle?.();
+            }
+        };
+
+        return { enqueue, flush, isPlaying: () => sources.size > 0 };
+    };
+
+    /** Sets the level of everything the app plays, from 0 to 1. */
+    const setVolume = (level: number) => {
+        volume = Math.min(Math.max(0, level), 1);
+        if (master) master.gain.value = volume;
+    };
+
+    const supportsOutputSelection = (): boolean =>
+        typeof window.AudioContext === 'function' && 'setSinkId' in window.AudioContext.prototype;
+
+    /**
+     * Sends all output to the given device; an empty id means the system default. Applied now if
+     * the context exists, otherwise when it is created.
+     */
+    const setOutputDevice = async (deviceId: string): Promise<void> => {
+        if (deviceId && !supportsOutputSelection()) {
+            throw new UnsupportedBrowserError('choosing an audio output device');
+        }
+        sinkId = deviceId;
+        if (context?.setSinkId) {
+            await context.setSinkId(deviceId);
+        }
+    };
+
+    /** Closes the context. The next call to `getContext` starts a fresh one. */
+    const close = async () => {
+        const closing = context;
+        context = null;
+        master = null;
+        channelGains.clear();
+        duckers.clear();
+        await closing?.close();
+    };
+
+    return { getContext, getOutput, createQueue, setVolume, setOutputDevice, supportsOutputSelection, close };
+};
+
+export type AudioEngine = ReturnType<typeof createAudioEngine>;
+
+let sharedEngine: AudioEngine | null = null;
+
+export const getAudioEngine = (): AudioEngine => {
+    if (!sharedEngine) {
+        sharedEngine = createAudioEngine();
+    }
+    return sharedEngine;
+};
+
+/** Replaces the shared engine, closing the old one, e.g. to start each test from a fresh context. */
+export const setAudioEngine = (engine: AudioEngine | null): void => {
+    sharedEngine?.close().catch(console.error);
+    sharedEngine = engine;
+};
+
+/** Speakers and headphones the user can send output to, once microphone permission has labelled them. */
+export const listOutputDevices = async (): Promise<MediaDeviceInfo[]> => {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(device => device.kind === 'audiooutput' && device.deviceId !== 'default');
+};
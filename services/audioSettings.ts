@@ -0,0 +1,47 @@
+const STORAGE_KEY = 'audioSettings';
+
+/** What happens to audio in a view when the user switches to another tab. */
+export type TabSwitchBehavior = 'pause' | 'keep';
+
+export type AudioSettings = {
+    /** Level of everything the app plays, from 0 to 1. */
+    volume: number;
+    /** Output device to play through; empty for the system default. */
+    outputDeviceId: string;
+    /**
+     * `pause` pauses the Summarizer and stops the Digest and Live Conversation when you leave
+     * their tab; `keep` leaves them running, with the live reply ducking anything else.
+     */
+    onTabSwitch: TabSwitchBehavior;
+};
+
+const TAB_SWITCH_BEHAVIORS: TabSwitchBehavior[] = ['pause', 'keep'];
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+    volume: 1,
+    outputDeviceId: '',
+    onTabSwitch: 'pause',
+};
+
+/** Reads saved settings, falling back field by field when they are missing or no longer valid. */
+export const loadAudioSettings = (): AudioSettings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<AudioSettings> | null;
+        if (!saved) return DEFAULT_AUDIO_SETTINGS;
+        return {
+            volume: typeof saved.volume === 'number' && saved.volume >= 0 && saved.volume <= 1 ? saved.volume : DEFAULT_AUDIO_SETTINGS.volume,
+            outputDeviceId: typeof saved.outputDeviceId === 'string' ? saved.outputDeviceId : DEFAULT_AUDIO_SETTINGS.outputDeviceId,
+            onTabSwitch: saved.onTabSwitch && TAB_SWITCH_BEHAVIORS.includes(saved.onTabSwitch) ? saved.onTabSwitch : DEFAULT_AUDIO_SETTINGS.onTabSwitch,
+        };
+    } catch {
+        return DEFAULT_AUDIO_SETTINGS;
+    }
+};
+
+export const saveAudioSettings = (settings: AudioSettings): void => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.error("Error saving audio settings: ", e);
+    }
+};
@@ -0,0 +1,53 @@
+import { ProviderName } from './providers/types';
+
+const PROVIDER_STORAGE_KEY = 'aiProvider';
+const PROVIDER_NAMES: ProviderName[] = ['gemini', 'mock'];
+
+const isProviderName = (value: unknown): value is ProviderName =>
+    typeof value === 'string' && (PROVIDER_NAMES as string[]).includes(value);
+
+/**
+ * Resolves which backend to use. A `localStorage.aiProvider` override wins over the
+ * build-time `AI_PROVIDER` setting so the backend can be switched without a rebuild.
+ */
+export const getProviderName = (): ProviderName => {
+    try {
+        const stored = globalThis.localStorage?.getItem(PROVIDER_STORAGE_KEY);
+        if (isProviderName(stored)) return stored;
+    } catch {
+        // Storage can be unavailable (private mode, sandboxed iframes); fall through.
+    }
+    const configured = process.env.AI_PROVIDER;
+    return isProviderName(configured) ? configured : 'gemini';
+};
+
+const API_KEY_STORAGE_KEY = 'geminiApiKey';
+
+/**
+ * The key entered in the app, kept in session storage so it is gone when the tab closes and is
+ * never part of the bundle. Falls back to `GEMINI_API_KEY`, which is only inlined under `vite` dev.
+ */
+export const getApiKey = (): string | undefined => getStoredApiKey() || process.env.API_KEY || undefined;
+
+export const getStoredApiKey = (): string | undefined => {
+    try {
+        return globalThis.sessionStorage?.getItem(API_KEY_STORAGE_KEY) || undefined;
+    } catch {
+        return undefined;
+    }
+};
+
+/** Saves a key for this tab, or forgets it when given null. */
+export const setStoredApiKey = (apiKey: string | null): void => {
+    if (apiKey) {
+        sessionStorage.setItem(API_KEY_STORAGE_KEY, apiKey);
+    } else {
+        sessionStorage.removeItem(API_KEY_STORAGE_KEY);
+    }
+};
+
+/** Base URL of the local Gemini proxy (`npm run proxy`); when set, the browser never holds a key. */
+export const getGeminiProxyUrl = (): string | undefined => process.env.GEMINI_PROXY_URL || undefined;
+
+/** Optional CORS proxy for fetching articles by URL, e.g. `http://localhost:8787/?url={url}`. */
+export const getArticleProxyUrl = (): string | undefined => process.env.ARTICLE_PROXY_URL || undefined;
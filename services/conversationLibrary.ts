@@ -0,0 +1,66 @@
+import { CONVERSATIONS_STORE, withStore } from './database';
+
+export type ToolCallInfo = {
+    /** Matches the call to its result. */
+    callId: string;
+    name: string;
+    args: Record<string, unknown>;
+    status: 'running' | 'done' | 'failed';
+    response?: Record<string, unknown>;
+};
+
+export type TranscriptEntry = {
+    /** `tool` entries record a tool call the model made and its result. */
+    speaker: 'user' | 'model' | 'tool';
+    /** For tool entries, a one-line description of the call and its result. */
+    text: string;
+    isFinal: boolean;
+    /** Milliseconds from the session start to the first text of this entry. */
+    startMs: number;
+    /** Milliseconds from the session start to the latest text of this entry. */
+    endMs: number;
+    tool?: ToolCallInfo;
+};
+
+export type ConversationRecord = {
+    id: string;
+    /** Milliseconds since the epoch. */
+    startedAt: number;
+    /** Unset while the session is still running. */
+    endedAt?: number;
+    voice: string;
+    model: string;
+    /** The article a grounded session was about, so its quotes can still be linked. */
+    article?: { title: string; text: string };
+    transcripts: TranscriptEntry[];
+};
+
+export const saveConversation = async (record: ConversationRecord): Promise<void> => {
+    await withStore(CONVERSATIONS_STORE, 'readwrite', store => store.put(record));
+};
+
+/** Returns all saved conversations, newest first. */
+export const listConversations = async (): Promise<ConversationRecord[]> => {
+    const records = await withStore(CONVERSATIONS_STORE, 'readonly', store => store.index('startedAt').getAll());
+    return (records as ConversationRecord[]).reverse();
+};
+
+export const deleteConversation = async (id: string): Promise<void> => {
+    await withStore(CONVERSATIONS_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const searchConversations = (records: ConversationRecord[], query: string): ConversationRecord[] => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return records;
+    return records.filter(record => {
+        const haystack = record.transcripts.map(entry => entry.text).join('\n').toLowerCase();
+        return terms.every(term => haystack.includes(term));
+    });
+};
+
+/** A short label for the sessions list: the first thing the user said. */
+export const conversationTitle = (record: ConversationRecord): string => {
+    const first = record.transcripts.find(entry => entry.speaker === 'user' && entry.text.trim());
+    const text = first?.text.trim() ?? 'Untitled conversation';
+    return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
@@ -0,0 +1,55 @@
+const DB_NAME = 'ai-companion';
+const DB_VERSION = 2;
+
+export const SUMMARIES_STORE = 'summaries';
+export const CONVERSATIONS_STORE = 'conversations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                const db = request.result;
+                // Each step upgrades from the version before it, so existing libraries are kept.
+                if (event.oldVersion < 1) {
+                    db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+                }
+                if (event.oldVersion < 2) {
+                    db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' }).createIndex('startedAt', 'startedAt');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+/** Runs a single request in its own transaction and resolves once the transaction commits. */
+export const withStore = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, mode);
+    const transactionDone = new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+    // Awaited together, so a failed request can't reject unobserved while the transaction does too.
+    const [result] = await Promise.all([requestToPromise(run(transaction.objectStore(storeName))), transactionDone]);
+    return result;
+};
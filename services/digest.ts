@@ -0,0 +1,63 @@
+import { splitSentences } from '../utils/textUtils';
+import { DigestPhrases, digestPhrasesFor } from './digestPhrases';
+
+export type DigestStory = {
+    title: string;
+    summary: string;
+};
+
+export type DigestSection = {
+    kind: 'intro' | 'story' | 'outro';
+    /** Chapter title shown to the listener. */
+    title: string;
+    /** Script text as it will be read aloud. */
+    text: string;
+};
+
+const transitionFor = (phrases: DigestPhrases, index: number, total: number): string => {
+    const { transitions } = phrases;
+    if (total > 1 && index === total - 1) return phrases.finalTransition;
+    if (index === 0) return transitions[0];
+    return transitions[1 + ((index - 1) % (transitions.length - 1))];
+};
+
+/**
+ * Orders summarized stories into a single bulletin: an intro, each story introduced by a
+ * transition and its headline, and an outro. Each section becomes one chapter. The connecting
+ * text is in `language`, the summaries' language, so the script is read in one language.
+ */
+export const buildDigestScript = (stories: DigestStory[], date: Date, language = 'en'): DigestSection[] => {
+    const phrases = digestPhrasesFor(language);
+    // English keeps the browser's date format, as before summaries could be translated.
+    const day = date.toLocaleDateString(language === 'en' ? undefined : language, { weekday: 'long', month: 'long', day: 'numeric' });
+    const intro: DigestSection = {
+        kind: 'intro',
+        title: phrases.introTitle,
+        text: phrases.intro(day, stories.length),
+    };
+    const body = stories.map((story, index): DigestSection => ({
+        kind: 'story',
+        title: story.title,
+        text: `${transitionFor(phrases, index, stories.length)}${phrases.colon}${story.title.replace(/[.!?。！？।]*$/, phrases.fullStop)} ${story.summary.trim()}`,
+    }));
+    const outro: DigestSection = {
+        kind: 'outro',
+        title: phrases.outroTitle,
+        text: phrases.outro,
+    };
+    return [intro, ...body, outro];
+};
+
+export const digestToText = (sections: DigestSection[]): string =>
+    sections.map(section => section.text).join('\n\n');
+
+/** Splits each section into the sentences that are synthesized, remembering where chapters begin. */
+export const planDigestSegments = (sections: DigestSection[]) => {
+    const sentences: string[] = [];
+    const chapterStarts: number[] = [];
+    for (const section of sections) {
+        chapterStarts.push(sentences.length);
+        sentences.push(...splitSentences(section.text));
+    }
+    return { sentences, chapterStarts };
+};
@@ -0,0 +1,152 @@
+/** The connecting text of a digest, read in the same language as its summaries. */
+export type DigestPhrases = {
+    /** Opening line, given the formatted day and the number of stories. */
+    intro: (day: string, count: number) => string;
+    /** The first is used for the first story; the rest cycle through the middle ones. */
+    transitions: string[];
+    finalTransition: string;
+    outro: string;
+    introTitle: string;
+    outroTitle: string;
+    /** Placed between a transition and the headline. */
+    colon: string;
+    fullStop: string;
+};
+
+const latin = { colon: ': ', fullStop: '.' };
+const cjk = { colon: '：', fullStop: '。' };
+
+export const DIGEST_PHRASES: Record<string, DigestPhrases> = {
+    en: {
+        ...latin,
+        intro: (day, count) => `Here is your news briefing for ${day}, with ${count === 1 ? 'one story' : `${count} stories`}.`,
+        transitions: ['First up', 'Next', 'Also today', 'In other news', 'Meanwhile', 'Turning now to another story'],
+        finalTransition: 'And finally',
+        outro: "That's all for this briefing. Thanks for listening.",
+        introTitle: 'Introduction',
+        outroTitle: 'Sign-off',
+    },
+    es: {
+        ...latin,
+        intro: (day, count) => `Este es tu resumen de noticias del ${day}, con ${count === 1 ? 'una noticia' : `${count} noticias`}.`,
+        transitions: ['Para empezar', 'A continuación', 'También hoy', 'En otras noticias', 'Mientras tanto', 'Pasamos ahora a otra noticia'],
+        finalTransition: 'Y por último',
+        outro: 'Esto es todo por este resumen. Gracias por escuchar.',
+        introTitle: 'Introducción',
+        outroTitle: 'Despedida',
+    },
+    fr: {
+        ...latin,
+        colon: ' : ',
+        intro: (day, count) => `Voici votre point info du ${day}, avec ${count === 1 ? 'une actualité' : `${count} actualités`}.`,
+        transitions: ['Pour commencer', 'Ensuite', 'Également aujourd’hui', 'Dans l’actualité également', 'Pendant ce temps', 'Passons maintenant à un autre sujet'],
+        finalTransition: 'Et pour finir',
+        outro: 'C’est tout pour ce point info. Merci de votre écoute.',
+        introTitle: 'Introduction',
+        outroTitle: 'Conclusion',
+    },
+    de: {
+        ...latin,
+        intro: (day, count) => `Hier ist Ihr Nachrichtenüberblick für ${day}, mit ${count === 1 ? 'einer Meldung' : `${count} Meldungen`}.`,
+        transitions: ['Zunächst', 'Als Nächstes', 'Außerdem heute', 'Weitere Nachrichten', 'Unterdessen', 'Nun zu einer anderen Meldung'],
+        finalTransition: 'Und zum Schluss',
+        outro: 'Das war’s für diesen Überblick. Danke fürs Zuhören.',
+        introTitle: 'Einleitung',
+        outroTitle: 'Abschluss',
+    },
+    it: {
+        ...latin,
+        intro: (day, count) => `Ecco il tuo notiziario di ${day}, con ${count === 1 ? 'una notizia' : `${count} notizie`}.`,
+        transitions: ['Per cominciare', 'Poi', 'Sempre oggi', 'Tra le altre notizie', 'Nel frattempo', 'Passiamo ora a un’altra notizia'],
+        finalTransition: 'E infine',
+        outro: 'È tutto per questo notiziario. Grazie per l’ascolto.',
+        introTitle: 'Introduzione',
+        outroTitle: 'Congedo',
+    },
+    pt: {
+        ...latin,
+        intro: (day, count) => `Aqui está o seu resumo de notícias de ${day}, com ${count === 1 ? 'uma notícia' : `${count} notícias`}.`,
+        transitions: ['Para começar', 'A seguir', 'Também hoje', 'Em outras notícias', 'Enquanto isso', 'Passamos agora a outra notícia'],
+        finalTransition: 'E por fim',
+        outro: 'Isso é tudo por este resumo. Obrigado por ouvir.',
+        introTitle: 'Introdução',
+        outroTitle: 'Encerramento',
+    },
+    nl: {
+        ...latin,
+        intro: (day, count) => `Dit is je nieuwsoverzicht voor ${day}, met ${count === 1 ? 'één bericht' : `${count} berichten`}.`,
+        transitions: ['Om te beginnen', 'Dan', 'Ook vandaag', 'In ander nieuws', 'Ondertussen', 'We gaan nu naar een ander bericht'],
+        finalTransition: 'En tot slot',
+        outro: 'Dat was het voor dit overzicht. Bedankt voor het luisteren.',
+        introTitle: 'Inleiding',
+        outroTitle: 'Afsluiting',
+    },
+    pl: {
+        ...latin,
+        // Phrased around the number so it needs no plural forms.
+        intro: (day, count) => `Oto twój przegląd wiadomości, ${day}. Liczba tematów: ${count}.`,
+        transitions: ['Na początek', 'Dalej', 'Również dziś', 'W innych wiadomościach', 'Tymczasem', 'Przechodzimy teraz do kolejnego tematu'],
+        finalTransition: 'I na koniec',
+        outro: 'To wszystko w tym przeglądzie. Dziękujemy za wysłuchanie.',
+        introTitle: 'Wstęp',
+        outroTitle: 'Zakończenie',
+    },
+    tr: {
+        ...latin,
+        intro: (day, count) => `İşte ${day} için haber özetiniz. Bugün ${count} haber var.`,
+        transitions: ['İlk olarak', 'Sırada', 'Bugün ayrıca', 'Diğer haberlerde', 'Bu arada', 'Şimdi başka bir habere geçiyoruz'],
+        finalTransition: 'Ve son olarak',
+        outro: 'Bu özetin sonuna geldik. Dinlediğiniz için teşekkürler.',
+        introTitle: 'Giriş',
+        outroTitle: 'Kapanış',
+    },
+    ar: {
+        ...latin,
+        intro: (day, count) => `إليك موجز الأخبار ليوم ${day}. عدد الأخبار: ${count}.`,
+        transitions: ['في البداية', 'وبعد ذلك', 'وأيضًا اليوم', 'وفي أخبار أخرى', 'وفي الأثناء', 'وننتقل الآن إلى خبر آخر'],
+        finalTransition: 'وأخيرًا',
+        outro: 'هذا كل شيء في هذا الموجز. شكرًا على الاستماع.',
+        introTitle: 'مقدمة',
+        outroTitle: 'ختام',
+    },
+    hi: {
+        ...latin,
+        fullStop: '।',
+        intro: (day, count) => `यह है ${day} का आपका समाचार सारांश, जिसमें ${count} ${count === 1 ? 'ख़बर है' : 'ख़बरें हैं'}।`,
+        transitions: ['सबसे पहले', 'अगली ख़बर', 'आज यह भी', 'अन्य ख़बरों में', 'इस बीच', 'अब चलते हैं एक और ख़बर की ओर'],
+        finalTransition: 'और अंत में',
+        outro: 'इस सारांश में बस इतना ही। सुनने के लिए धन्यवाद।',
+        introTitle: 'परिचय',
+        outroTitle: 'समापन',
+    },
+    zh: {
+        ...cjk,
+        intro: (day, count) => `这是您${day}的新闻简报，共有${count}条新闻。`,
+        transitions: ['首先', '接下来', '今天还有', '其他新闻方面', '与此同时', '现在来看另一则新闻'],
+        finalTransition: '最后',
+        outro: '以上就是本期简报的全部内容。感谢收听。',
+        introTitle: '开场',
+        outroTitle: '结束语',
+    },
+    ja: {
+        ...cjk,
+        intro: (day, count) => `${day}のニュースダイジェストです。今日は${count}件のニュースをお伝えします。`,
+        transitions: ['まずは', '次は', '続いて', 'そのほかのニュース', '一方', '話題は変わって'],
+        finalTransition: '最後に',
+        outro: '以上、ニュースダイジェストでした。お聞きいただきありがとうございました。',
+        introTitle: 'オープニング',
+        outroTitle: 'エンディング',
+    },
+    ko: {
+        ...latin,
+        intro: (day, count) => `${day} 뉴스 브리핑입니다. 오늘은 ${count}개의 소식을 전해 드립니다.`,
+        transitions: ['먼저', '다음 소식입니다', '오늘의 또 다른 소식', '다른 소식입니다', '한편', '이어서 다른 소식입니다'],
+        finalTransition: '마지막으로',
+        outro: '이상으로 오늘의 브리핑을 마칩니다. 들어 주셔서 감사합니다.',
+        introTitle: '시작',
+        outroTitle: '마무리',
+    },
+};
+
+/** Phrases for a summary language code, falling back to English for codes without them. */
+export const digestPhrasesFor = (language: string): DigestPhrases => DIGEST_PHRASES[language] ?? DIGEST_PHRASES.en;
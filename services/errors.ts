@@ -0,0 +1,225 @@
+/** Broad causes of failure, each with its own advice for the user. */
+export type ErrorKind =
+    | 'auth'
+    | 'quota'
+    | 'safety'
+    | 'network'
+    | 'empty-audio'
+    | 'mic-permission'
+    | 'mic-unavailable'
+    | 'unsupported-browser'
+    | 'budget'
+    | 'unknown';
+
+const GENERIC_MESSAGE = 'Something went wrong. Please try again.';
+
+/**
+ * Base class for failures the UI knows how to explain. `message` is for logs; `userMessage`
+ * says what happened and what to do about it.
+ */
+export class AppError extends Error {
+    readonly kind: ErrorKind = 'unknown';
+    /** Whether trying the same call again may succeed. */
+    readonly retryable: boolean = false;
+    readonly userMessage: string;
+
+    constructor(message: string, userMessage = GENERIC_MESSAGE, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = new.target.name;
+        this.userMessage = userMessage;
+    }
+}
+
+export class AuthError extends AppError {
+    readonly kind = 'auth';
+
+    constructor(message: string, userMessage = 'The Gemini API rejected the API key. Check that it is valid and has access to these models.', options?: { cause?: unknown }) {
+        super(message, userMessage, options);
+    }
+}
+
+export class QuotaError extends AppError {
+    readonly kind = 'quota';
+    readonly retryable = true;
+
+    /** How long the server asked us to wait, when it said. */
+    constructor(message: string, readonly retryAfterMs?: number, options?: { cause?: unknown }) {
+        super(message, 'The Gemini API rate limit or quota was reached. Wait a minute and try again, or check the quota for your key.', options);
+    }
+}
+
+export class SafetyError extends AppError {
+    readonly kind = 'safety';
+
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, 'The model declined this content under its safety rules. Try a different article or wording.', options);
+    }
+}
+
+export class NetworkError extends AppError {
+    readonly kind = 'network';
+    readonly retryable = true;
+
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, 'Could not reach the Gemini API, or it is temporarily unavailable. Check your connection and try again.', options);
+    }
+}
+
+export class EmptyAudioError extends AppError {
+    readonly kind = 'empty-audio';
+    readonly retryable = true;
+
+    constructor(message = 'No audio data received from API.', options?: { cause?: unknown }) {
+        super(message, 'The speech service returned no audio. Please try again.', options);
+    }
+}
+
+export class MicPermissionError extends AppError {
+    readonly kind = 'mic-permission';
+
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, 'Microphone access is blocked. Allow it for this site in your browser settings, then try again.', options);
+    }
+}
+
+export class MicUnavailableError extends AppError {
+    readonly kind = 'mic-unavailable';
+
+    constructor(message: string, readonly reason: 'not-found' | 'busy', options?: { cause?: unknown }) {
+        super(
+            message,
+            reason === 'not-found'
+                ? 'No microphone was found. Connect one and try again.'
+                : 'The microphone could not be started. It may be in use by another app; close it and try again.',
+            options,
+        );
+    }
+}
+
+export class UnsupportedBrowserError extends AppError {
+    readonly kind = 'unsupported-browser';
+
+    constructor(feature: string) {
+        super(
+            `${feature} is not supported in this browser.`,
+            `This browser does not support ${feature}. Use a recent Chrome, Edge, Firefox or Safari, over HTTPS or on localhost.`,
+        );
+    }
+}
+
+export class BudgetExceededError extends AppError {
+    readonly kind = 'budget';
+
+    constructor(readonly spentUsd: number, readonly capUsd: number) {
+        super(
+            `Daily spending cap reached: $${spentUsd.toFixed(2)} of $${capUsd.toFixed(2)}`,
+            `Today's estimated spend of $${spentUsd.toFixed(2)} has reached the $${capUsd.toFixed(2)} cap. Raise the cap in the Usage tab, or try again tomorrow.`,
+        );
+    }
+}
+
+const messageOf = (error: unknown): string =>
+    error instanceof Error ? error.message : typeof error === 'string' ? error : String((error as { message?: unknown })?.message ?? error);
+
+/** Reads `retryDelay` out of a Google API error body, e.g. `"retryDelay": "31s"`. */
+const parseRetryDelay = (message: string): number | undefined => {
+    const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Math.round(Number(match[1]) * 1000) : undefined;
+};
+
+/**
+ * Classifies any thrown value. API errors are recognized by their HTTP `status`, and errors
+ * that only carry a message (such as closed live sockets) by the wording the API uses.
+ */
+export const toAppError = (error: unknown): AppError => {
+    if (error instanceof AppError) return error;
+    const message = messageOf(error);
+    const options = { cause: error };
+    const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+
+    if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED|unauthori[sz]ed/i.test(message)) {
+        return new AuthError(message, undefined, options);
+    }
+    if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+        return new QuotaError(message, parseRetryDelay(message), options);
+    }
+    if (/\bSAFETY\b|PROHIBITED_CONTENT|blocked due to/i.test(message)) {
+        return new SafetyError(message, options);
+    }
+    if (
+        (status !== undefined && status >= 500)
+        || (error instanceof TypeError && /fetch|network/i.test(message))
+        || /network|timed? ?out|UNAVAILABLE|ECONNRESET/i.test(message)
+        || (typeof navigator !== 'undefined' && navigator.onLine === false)
+    ) {
+        return new NetworkError(message, options);
+    }
+    return new AppError(message, GENERIC_MESSAGE, options);
+};
+
+/** Classifies a `getUserMedia` or audio setup failure. */
+export const toMicrophoneError = (error: unknown): AppError => {
+    if (error instanceof AppError) return error;
+    const name = (error as { name?: string })?.name;
+    const message = messageOf(error);
+    switch (name) {
+        case 'NotAllowedError':
+        case 'SecurityError':
+            return new MicPermissionError(message, { cause: error });
+        case 'NotFoundError':
+        case 'OverconstrainedError':
+            return new MicUnavailableError(message, 'not-found', { cause: error });
+        case 'NotReadableError':
+        case 'AbortError':
+            return new MicUnavailableError(message, 'busy', { cause: error });
+        default:
+            return toAppError(error);
+    }
+};
+
+/** The message to show for an error; `fallback` replaces the generic one for unrecognized errors. */
+export const errorMessage = (error: unknown, fallback?: string): string => {
+    const appError = toAppError(error);
+    return appError.kind === 'unknown' && fallback ? fallback : appError.userMessage;
+};
+
+export type RetryOptions = {
+    /** Total tries, including the first. */
+    attempts?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+};
+
+const DEFAULT_RETRY: Required<RetryOptions> = { attempts: 3, baseDelayMs: 500, maxDelayMs: 10000 };
+
+/**
+ * How long to wait before retry number `attempt` (from 1), or null when the error should not be
+ * retried. Exponential with jitter, but a server-requested delay wins; one longer than
+ * `maxDelayMs` usually means a daily quota, which waiting won't fix.
+ */
+export const retryDelay = (error: AppError, attempt: number, options: RetryOptions = {}): number | null => {
+    const { attempts, baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY, ...options };
+    if (!error.retryable || attempt >= attempts) return null;
+    if (error instanceof QuotaError && error.retryAfterMs !== undefined) {
+        return error.retryAfterMs <= maxDelayMs ? error.retryAfterMs : null;
+    }
+    const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+    return backoff * (0.75 + Math.random() * 0.5);
+};
+
+export const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/** Runs `run`, retrying retryable failures with backoff. Always rejects with an `AppError`. */
+export const withRetry = async <T>(run: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await run();
+        } catch (e) {
+            const error = toAppError(e);
+            const delay = retryDelay(error, attempt, options);
+            if (delay === null) throw error;
+            console.warn(`Retrying after ${error.kind} error (attempt ${attempt}):`, error.message);
+            await sleep(delay);
+        }
+    }
+};
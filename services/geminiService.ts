@@ -1,53 +1,195 @@
+import { getProvider } from "./providers";
+import { validateApiKey } from "./providers/geminiClient";
+import { getGeminiProxyUrl } from "./config";
+import { retryDelay, sleep, toAppError, withRetry } from "./errors";
+import { DEFAULT_SUMMARY_OPTIONS } from "./prompts";
+import { CallTracker, UsageKind, UsageTotals, assertWithinBudget, base64PcmSeconds, recordUsage, trackCall } from "./telemetry";
+import { LiveConnectOptions, LiveSessionHandle, SpeechOptions, SummaryOptions, TokenUsage, VoiceOption } from "./providers/types";
 
-import { GoogleGenAI, Modality } from "@google/genai";
+// Live replies are always 24 kHz; mic audio says its rate in the MIME type.
+const LIVE_OUTPUT_SAMPLE_RATE = 24000;
+const DEFAULT_LIVE_INPUT_SAMPLE_RATE = 16000;
 
-const API_KEY = process.env.API_KEY;
-
-if (!API_KEY) {
-    throw new Error("API_KEY environment variable not set");
-}
-
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+/** Runs one API request and records its latency, tokens and whether it failed. */
+const tracked = async <T>(kind: UsageKind, run: (call: CallTracker) => Promise<T>, extra?: Partial<UsageTotals>): Promise<T> => {
+    const call = trackCall(kind);
+    try {
+        const result = await run(call);
+        call.finish(true, extra);
+        return result;
+    } catch (e) {
+        call.finish(false);
+        throw e;
+    }
+};
 
-export const summarizeArticle = async (articleText: string): Promise<string> => {
+export const summarizeArticle = async (
+    articleText: string,
+    options: SummaryOptions = DEFAULT_SUMMARY_OPTIONS,
+): Promise<string> => {
     try {
-        const prompt = `Summarize this news article into a concise, easy-to-listen-to paragraph, as if for a radio news brief. Focus on the key facts and outcomes. Article:\n\n${articleText}`;
-        
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-        });
-
-        return response.text;
+        assertWithinBudget();
+        return await withRetry(() => tracked('summary', call => getProvider().summarize(articleText, options, call.addTokens)));
     } catch (error) {
         console.error("Error in summarizeArticle:", error);
-        throw new Error("Failed to get summary from Gemini API.");
+        throw toAppError(error);
     }
 };
 
-export const generateSpeech = async (text: string): Promise<string> => {
+export async function* streamSummary(
+    articleText: string,
+    options: SummaryOptions = DEFAULT_SUMMARY_OPTIONS,
+): AsyncGenerator<string> {
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text: `Say with a clear and professional news-reader voice: ${text}` }] }],
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: {
-                        prebuiltVoiceConfig: { voiceName: 'Kore' },
-                    },
-                },
-            },
-        });
-        
-        const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-        if (!audioData) {
-            throw new Error("No audio data received from API.");
+        assertWithinBudget();
+    } catch (error) {
+        console.error("Error in streamSummary:", error);
+        throw error;
+    }
+    // Only a stream that has produced nothing can be retried without repeating text.
+    for (let attempt = 1; ; attempt++) {
+        let hasYielded = false;
+        const call = trackCall('summary');
+        try {
+            for await (const delta of getProvider().summarizeStream(articleText, options, call.addTokens)) {
+                if (!hasYielded) call.firstByte();
+                hasYielded = true;
+                yield delta;
+            }
+            return;
+        } catch (e) {
+            call.finish(false);
+            const error = toAppError(e);
+            const delay = hasYielded ? null : retryDelay(error, attempt);
+            if (delay === null) {
+                console.error("Error in streamSummary:", e);
+                throw error;
+            }
+            await sleep(delay);
+        } finally {
+            // Also reached when the caller stops reading early.
+            call.finish(true);
         }
-        
-        return audioData;
+    }
+}
+
+export const generateSpeech = async (
+    text: string,
+    options: SpeechOptions = DEFAULT_SUMMARY_OPTIONS,
+): Promise<string> => {
+    try {
+        assertWithinBudget();
+        return await withRetry(() => tracked(
+            'speech',
+            call => getProvider().synthesizeSpeech(text, options, call.addTokens),
+            { ttsCharacters: text.length },
+        ));
     } catch (error) {
         console.error("Error in generateSpeech:", error);
-        throw new Error("Failed to generate speech from Gemini API.");
+        throw toAppError(error);
     }
 };
+
+/**
+ * Connects a live session, recording how long it took to open, the audio sent each way, the
+ * tokens of each turn, and time to first audio after each turn the user ends explicitly.
+ * A session that takes today's spend past the cap is closed with a `BudgetExceededError`.
+ */
+export const connectLiveSession = async (options: LiveConnectOptions): Promise<LiveSessionHandle> => {
+    assertWithinBudget();
+    const { callbacks } = options;
+    const connection = trackCall('live');
+    // When the user last finished a turn, by typing or releasing the mic; null once answered.
+    let turnEndedAt: number | null = null;
+    let handle: LiveSessionHandle | null = null;
+    let isOverBudget = false;
+
+    // Only tokens are priced, so the cap is checked whenever a turn reports them.
+    const recordTokens = (usage: TokenUsage) => {
+        recordUsage('live', usage);
+        try {
+            assertWithinBudget();
+        } catch (error) {
+            isOverBudget = true;
+            callbacks.onerror(error as Error);
+            handle?.close();
+        }
+    };
+
+    handle = await getProvider().connectLive({
+        ...options,
+        callbacks: {
+            onopen: () => {
+                connection.finish(true);
+                callbacks.onopen();
+            },
+            onmessage: (event) => {
+                if (isOverBudget) return;
+                if (event.audio) {
+                    recordUsage('live', {
+                        liveOutputSeconds: base64PcmSeconds(event.audio, LIVE_OUTPUT_SAMPLE_RATE),
+                        ...(turnEndedAt !== null ? { ttfbMs: performance.now() - turnEndedAt, ttfbSamples: 1 } : {}),
+                    });
+                    turnEndedAt = null;
+                }
+                if (event.usage) {
+                    recordTokens(event.usage);
+                    if (isOverBudget) return;
+                }
+                return callbacks.onmessage(event);
+            },
+            onerror: (error) => {
+                if (!isOverBudget) callbacks.onerror(error);
+            },
+            onclose: (reason) => {
+                connection.finish(false);
+                // Already reported as the budget error.
+                if (!isOverBudget) callbacks.onclose(reason);
+            },
+        },
+    }).catch((e) => {
+        connection.finish(false);
+        throw e;
+    });
+    if (isOverBudget) handle.close();
+
+    return {
+        sendRealtimeInput: (input) => {
+            if ('media' in input) {
+                const sampleRate = Number(input.media.mimeType.match(/rate=(\d+)/)?.[1]) || DEFAULT_LIVE_INPUT_SAMPLE_RATE;
+                recordUsage('live', { liveInputSeconds: base64PcmSeconds(input.media.data, sampleRate) });
+            } else {
+                turnEndedAt = performance.now();
+            }
+            handle.sendRealtimeInput(input);
+        },
+        sendText: (text) => {
+            turnEndedAt = performance.now();
+            handle.sendText(text);
+        },
+        sendToolResponse: (results) => handle.sendToolResponse(results),
+        close: () => handle.close(),
+    };
+};
+
+/** The models and voice that the active provider uses, recorded alongside saved summaries. */
+export const getGenerationInfo = () => {
+    const provider = getProvider();
+    return { summaryModel: provider.summaryModel, speechModel: provider.speechModel, voice: provider.speechVoice };
+};
+
+export const getLiveModel = (): string => getProvider().liveModel;
+
+/** The voices summaries and conversations use until the user chooses one. */
+export const getDefaultVoices = () => {
+    const provider = getProvider();
+    return { speech: provider.speechVoice, live: provider.liveVoice };
+};
+
+export const getVoiceOptions = (): VoiceOption[] => getProvider().voices;
+
+/** Whether the user has to supply a key: the Gemini backend is in use without the proxy. */
+export const needsApiKey = (): boolean => getProvider().name === 'gemini' && !getGeminiProxyUrl();
+
+/** Checks a key the user entered before it is saved. */
+export const checkApiKey = (apiKey: string): Promise<void> => validateApiKey(apiKey);
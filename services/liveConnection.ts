@@ -0,0 +1,281 @@
+import { AppError, NetworkError, toAppError } from './errors';
+import { connectLiveSession } from './geminiService';
+import { ArticleGrounding, AudioChunk, LiveEvent, LiveSessionHandle, LiveToolDeclaration, LiveToolResult, RealtimeInput, VoiceSettings } from './providers/types';
+
+/**
+ * `degraded` means the connection is back but something was lost on the way: the earlier
+ * context could not be resumed, or mic audio overflowed the buffer while offline.
+ */
+export type LiveConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'degraded' | 'failed';
+
+export type LiveConnectionState = {
+    status: LiveConnectionStatus;
+    /** The reconnection attempt in progress, starting at 1; 0 otherwise. */
+    attempt: number;
+    maxAttempts: number;
+    /** A sentence explaining a reconnecting, degraded or failed status. */
+    reason?: string;
+    /** Why a `failed` connection gave up. */
+    error?: AppError;
+    /** Whether the session had been open before, so `failed` means a lost rather than a refused connection. */
+    hadOpened: boolean;
+};
+
+export type LiveConnectionOptions = {
+    voice?: VoiceSettings;
+    tools?: LiveToolDeclaration[];
+    /** Sent again on every reconnection, so it survives one that cannot resume. */
+    grounding?: ArticleGrounding;
+    onEvent: (event: LiveEvent) => void | Promise<void>;
+    onStateChange: (state: LiveConnectionState) => void;
+    maxAttempts?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    /** Mic chunks kept while disconnected; the oldest are dropped beyond this. */
+    maxBufferedChunks?: number;
+};
+
+export type LiveConnection = {
+    /** Sends a mic chunk, or buffers it until the connection is back. */
+    send: (chunk: AudioChunk) => void;
+    /** Tells the model the mic has paused, e.g. when push-to-talk is released. */
+    endAudioStream: () => void;
+    /** Sends a typed turn, or holds it until the connection is back. */
+    sendText: (text: string) => void;
+    /** Answers tool calls; dropped if the connection that asked for them is gone. */
+    sendToolResponse: (results: LiveToolResult[]) => void;
+    close: () => void;
+};
+
+const DEFAULT_MAX_ATTEMPTS = 6;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 15000;
+// Thirty seconds of 100 ms chunks.
+const DEFAULT_MAX_BUFFERED_CHUNKS = 300;
+
+type PendingInput = RealtimeInput | { text: string };
+
+const closedUnexpectedly = () => new NetworkError('The connection closed unexpectedly.');
+
+/**
+ * Keeps a live session going across network drops. A lost connection is retried with
+ * exponential backoff and jitter, resuming from the latest handle the server sent, and mic
+ * audio sent in the meantime is replayed once it is back. While the browser reports being
+ * offline no attempts are spent; the next one starts when it comes back online.
+ *
+ * A session that never opened is not retried, since that is usually a configuration problem,
+ * and neither are auth, safety or budget failures, which would only fail again.
+ */
+export const createLiveConnection = ({
+    voice,
+    tools,
+    grounding,
+    onEvent,
+    onStateChange,
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    maxBufferedChunks = DEFAULT_MAX_BUFFERED_CHUNKS,
+}: LiveConnectionOptions): LiveConnection => {
+    let session: LiveSessionHandle | null = null;
+    let isOpen = false;
+    let hadOpened = false;
+    let closed = false;
+    // Identifies the current connection; callbacks from older ones are ignored.
+    let generation = 0;
+    let attempt = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let waitingForNetwork = false;
+    let resumptionHandle: string | undefined;
+    let droppedChunks = 0;
+    const buffer: PendingInput[] = [];
+    // Tool calls asked for on the current connection; another connection can't answer them.
+    const pendingCallIds = new Set<string>();
+
+    const setState = (status: LiveConnectionStatus, reason?: string, error?: AppError) =>
+        onStateChange({ status, attempt, maxAttempts, reason, hadOpened, error });
+
+    const flush = () => {
+        if (!session || !isOpen) return;
+        while (buffer.length > 0) {
+            const input = buffer.shift()!;
+            if ('text' in input) session.sendText(input.text);
+            else session.sendRealtimeInput(input);
+        }
+    };
+
+    const dispose = () => {
+        closed = true;
+        generation++;
+        if (retryTimer) clearTimeout(retryTimer);
+        retryTimer = null;
+        window.removeEventListener('online', handleOnline);
+        buffer.length = 0;
+        try {
+            session?.close();
+        } catch (e) {
+            console.error(e);
+        }
+        session = null;
+        isOpen = false;
+    };
+
+    const handleOpen = (usedHandle: string | undefined) => {
+        const reconnected = hadOpened;
+        isOpen = true;
+        attempt = 0;
+        flush();
+
+        const losses: string[] = [];
+        if (reconnected && !usedHandle) {
+            losses.push('The earlier part of the conversation could not be restored.');
+        }
+        if (droppedChunks > 0) {
+            losses.push('Some of what you said while offline was dropped.');
+            droppedChunks = 0;
+        }
+        setState(losses.length > 0 ? 'degraded' : 'connected', losses.join(' ') || undefined);
+        hadOpened = true;
+    };
+
+    const connect = () => {
+        const id = ++generation;
+        pendingCallIds.clear();
+        const isCurrent = () => id === generation && !closed;
+        const usedHandle = resumptionHandle;
+        let opened = false;
+
+        const markOpen = () => {
+            // The session handle and the open callback can arrive in either order.
+            if (opened && session) handleOpen(usedHandle);
+        };
+
+        connectLiveSession({
+            voice,
+            tools,
+            grounding,
+            resumptionHandle: usedHandle,
+            callbacks: {
+                onopen: () => {
+                    if (!isCurrent()) return;
+                    opened = true;
+                    markOpen();
+                },
+                onmessage: (event: LiveEvent) => {
+                    if (!isCurrent()) return;
+                    if (event.resumption?.resumable) {
+                        resumptionHandle = event.resumption.handle;
+                    }
+                    event.toolCalls?.forEach(call => pendingCallIds.add(call.id));
+                    if (event.goAway) {
+                        // Switch over before the server drops us, without spending an attempt.
+                        reconnect('The server asked to reconnect.', 0);
+                    }
+                    return onEvent(event);
+                },
+                onerror: (error: ErrorEvent | Error) => {
+                    if (!isCurrent()) return;
+                    console.error(error);
+                    handleDrop(toAppError(error));
+                },
+                onclose: (reason?: string) => {
+                    if (!isCurrent()) return;
+                    handleDrop(reason ? toAppError(new Error(reason)) : closedUnexpectedly());
+                },
+            },
+        })
+            .then(handle => {
+                if (!isCurrent()) {
+                    handle.close();
+                    return;
+                }
+                session = handle;
+                markOpen();
+            })
+            .catch(error => {
+                if (!isCurrent()) return;
+                console.error(error);
+                handleDrop(toAppError(error));
+            });
+    };
+
+    const reconnect = (reason: string, delayMs: number) => {
+        generation++;
+        const previous = session;
+        session = null;
+        isOpen = false;
+        try {
+            previous?.close();
+        } catch (e) {
+            console.error(e);
+        }
+
+        if (navigator.onLine === false) {
+            waitingForNetwork = true;
+            setState('reconnecting', 'Waiting for the network to come back.');
+            return;
+        }
+        waitingForNetwork = false;
+        setState('reconnecting', reason);
+        retryTimer = setTimeout(() => {
+            retryTimer = null;
+            connect();
+        }, delayMs);
+    };
+
+    const handleDrop = (error: AppError) => {
+        const reason = error.message;
+        if (!hadOpened || attempt >= maxAttempts || error.kind === 'auth' || error.kind === 'safety' || error.kind === 'budget') {
+            dispose();
+            setState('failed', reason, error);
+            return;
+        }
+        if (navigator.onLine === false) {
+            reconnect(reason, 0);
+            return;
+        }
+        attempt++;
+        const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+        reconnect(reason, backoff * (0.75 + Math.random() * 0.5));
+    };
+
+    const handleOnline = () => {
+        if (closed || !waitingForNetwork) return;
+        waitingForNetwork = false;
+        connect();
+    };
+
+    window.addEventListener('online', handleOnline);
+    setState('connecting');
+    connect();
+
+    const sendInput = (input: PendingInput) => {
+        if (closed) return;
+        if (session && isOpen) {
+            if ('text' in input) session.sendText(input.text);
+            else session.sendRealtimeInput(input);
+            return;
+        }
+        buffer.push(input);
+        if (buffer.length > maxBufferedChunks) {
+            // Typed turns are kept; only audio is dropped.
+            const oldestAudio = buffer.findIndex(pending => !('text' in pending));
+            if (oldestAudio !== -1) {
+                buffer.splice(oldestAudio, 1);
+                droppedChunks++;
+            }
+        }
+    };
+
+    return {
+        send: (chunk: AudioChunk) => sendInput({ media: chunk }),
+        endAudioStream: () => sendInput({ audioStreamEnd: true }),
+        sendText: (text: string) => sendInput({ text }),
+        sendToolResponse: (results: LiveToolResult[]) => {
+            const answerable = results.filter(result => pendingCallIds.delete(result.id));
+            if (closed || !session || !isOpen || answerable.length === 0) return;
+            session.sendToolResponse(answerable);
+        },
+        close: dispose,
+    };
+};
@@ -0,0 +1,169 @@
+import { articleToText, fetchArticle, isUrl } from './articleExtractor';
+import { summarizeArticle } from './geminiService';
+import { SUMMARY_STYLES } from './prompts';
+import { listSummaries, searchSummaries } from './summaryLibrary';
+import { LiveToolCall, LiveToolDeclaration, LiveToolResult, SummaryOptions, SummaryStyle, ToolParameters } from './providers/types';
+
+/** What the tools can see and do outside the live session. */
+export type ToolContext = {
+    /** The article currently in the Summarizer tab, its URL if not yet imported, or an empty string. */
+    getArticleText: () => string;
+    summaryOptions: SummaryOptions;
+    /** Calls back with `label` after `delayMs`; used by `set_timer`. */
+    scheduleTimer: (label: string, delayMs: number) => void;
+};
+
+type ParameterTypes = { string: string; number: number; integer: number; boolean: boolean };
+
+/** The handler's argument type, derived from the declared JSON Schema. Required fields are checked before it runs. */
+export type ToolArgs<P extends ToolParameters> = {
+    [K in keyof P['properties']]?: ParameterTypes[P['properties'][K]['type']];
+};
+
+export type LiveTool<P extends ToolParameters = ToolParameters> = LiveToolDeclaration & {
+    parameters: P;
+    /** Returns the JSON the model receives. A thrown error is reported to the model as `{ error }`. */
+    run: (args: ToolArgs<P>, context: ToolContext) => Promise<Record<string, unknown>> | Record<string, unknown>;
+};
+
+export const defineTool = <P extends ToolParameters>(tool: LiveTool<P>): LiveTool => tool as unknown as LiveTool;
+
+const MIN_TIMER_MS = 1000;
+const MAX_TIMER_MS = 24 * 60 * 60 * 1000;
+const SEARCH_EXCERPT_LENGTH = 300;
+
+export const summarizeArticleTool = defineTool({
+    name: 'summarize_article',
+    description: 'Summarizes the article the user has open in the Summarizer tab. Use it when they ask about "the article" or "what I was reading".',
+    parameters: {
+        type: 'object',
+        properties: {
+            style: {
+                type: 'string',
+                description: 'How to write the summary; defaults to the style chosen in the Summarizer.',
+                enum: SUMMARY_STYLES.map(style => style.value),
+            },
+        },
+    },
+    run: async ({ style }, { getArticleText, summaryOptions }) => {
+        let text = getArticleText().trim();
+        if (!text) {
+            throw new Error('There is no article in the Summarizer tab.');
+        }
+        if (isUrl(text)) {
+            text = articleToText(await fetchArticle(text));
+        }
+        const summary = await summarizeArticle(text, { ...summaryOptions, style: (style as SummaryStyle) ?? summaryOptions.style });
+        return { summary };
+    },
+});
+
+export const searchSummariesTool = defineTool({
+    name: 'search_summaries',
+    description: "Searches the user's saved summaries by words in their title, article or summary.",
+    parameters: {
+        type: 'object',
+        properties: {
+            query: { type: 'string', description: 'Words to look for.' },
+            limit: { type: 'integer', description: 'Most results to return; defaults to 5.' },
+        },
+        required: ['query'],
+    },
+    run: async ({ query, limit }) => {
+        const matches = searchSummaries(await listSummaries(), query);
+        return {
+            count: matches.length,
+            results: matches.slice(0, Math.max(1, limit ?? 5)).map(entry => ({
+                title: entry.title,
+                savedAt: new Date(entry.createdAt).toLocaleString(),
+                summary: entry.summary.slice(0, SEARCH_EXCERPT_LENGTH),
+            })),
+        };
+    },
+});
+
+export const currentTimeTool = defineTool({
+    name: 'get_current_time',
+    description: "Returns the current date and time in the user's time zone.",
+    parameters: { type: 'object', properties: {} },
+    run: () => {
+        const now = new Date();
+        return {
+            iso: now.toISOString(),
+            local: now.toLocaleString(),
+            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        };
+    },
+});
+
+export const setTimerTool = defineTool({
+    name: 'set_timer',
+    description: 'Sets a timer or reminder that goes off after the given time. It goes off in any tab, as long as the page stays open.',
+    parameters: {
+        type: 'object',
+        properties: {
+            minutes: { type: 'number', description: 'Minutes from now.' },
+            seconds: { type: 'number', description: 'Seconds from now, added to the minutes.' },
+            label: { type: 'string', description: 'What the reminder is for.' },
+        },
+    },
+    run: ({ minutes, seconds, label }, { scheduleTimer }) => {
+        const delayMs = Math.round(((minutes ?? 0) * 60 + (seconds ?? 0)) * 1000);
+        if (!(delayMs >= MIN_TIMER_MS) || delayMs > MAX_TIMER_MS) {
+            throw new Error('The timer must be between one second and 24 hours.');
+        }
+        const name = label?.trim() || 'Timer';
+        scheduleTimer(name, delayMs);
+        return { label: name, durationSeconds: delayMs / 1000, dueAt: new Date(Date.now() + delayMs).toLocaleTimeString() };
+    },
+});
+
+export const DEFAULT_LIVE_TOOLS: LiveTool[] = [summarizeArticleTool, searchSummariesTool, currentTimeTool, setTimerTool];
+
+/** Checks arguments against the tool's schema, since the model may omit or mistype them. */
+export const validateToolArgs = (parameters: ToolParameters, args: Record<string, unknown>): string | null => {
+    for (const name of parameters.required ?? []) {
+        if (args[name] === undefined || args[name] === null) return `Missing required argument "${name}".`;
+    }
+    for (const [name, value] of Object.entries(args)) {
+        const spec = parameters.properties[name];
+        if (!spec || value === undefined || value === null) continue;
+        const matches = spec.type === 'integer'
+            ? Number.isInteger(value)
+            : typeof value === spec.type && !(spec.type === 'number' && !Number.isFinite(value));
+        if (!matches) return `Argument "${name}" must be a ${spec.type}.`;
+        if (spec.enum && !spec.enum.includes(value as string)) return `Argument "${name}" must be one of ${spec.enum.join(', ')}.`;
+    }
+    return null;
+};
+
+export type ToolRegistry = {
+    declarations: LiveToolDeclaration[];
+    /** Runs a call and always resolves; unknown tools, bad arguments and failures become `{ error }`. */
+    execute: (call: LiveToolCall) => Promise<LiveToolResult>;
+};
+
+export const createToolRegistry = (tools: LiveTool[], context: ToolContext): ToolRegistry => {
+    const byName = new Map(tools.map(tool => [tool.name, tool]));
+
+    const execute = async ({ id, name, args }: LiveToolCall): Promise<LiveToolResult> => {
+        const tool = byName.get(name);
+        if (!tool) {
+            return { id, name, response: { error: `Unknown tool "${name}".` } };
+        }
+        const invalid = validateToolArgs(tool.parameters, args);
+        if (invalid) {
+            return { id, name, response: { error: invalid } };
+        }
+        try {
+            return { id, name, response: await tool.run(args as ToolArgs<ToolParameters>, context) };
+        } catch (e) {
+            return { id, name, response: { error: e instanceof Error ? e.message : String(e) } };
+        }
+    };
+
+    return {
+        declarations: tools.map(({ name, description, parameters }) => ({ name, description, parameters })),
+        execute,
+    };
+};
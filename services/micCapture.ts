@@ -0,0 +1,73 @@
+import processorUrl from '../worklets/micCaptureProcessor.ts?worker&url';
+import type { MicCaptureProcessorOptions } from '../worklets/micCaptureProcessor';
+import { UnsupportedBrowserError } from './errors';
+
+export type MicCaptureOptions = {
+    stream: MediaStream;
+    /** Receives clamped 16-bit PCM at `targetSampleRate`, `chunkMs` at a time. */
+    onChunk: (pcm: Int16Array) => void;
+    targetSampleRate?: number;
+    chunkMs?: number;
+};
+
+export type MicCapture = {
+    /** The device-rate context the microphone is read through. */
+    context: AudioContext;
+    stop: () => void;
+};
+
+const DEFAULT_TARGET_SAMPLE_RATE = 16000;
+const DEFAULT_CHUNK_MS = 100;
+
+/**
+ * Captures the microphone through an AudioWorklet so conversion and batching happen off the
+ * main thread. The context runs at the device's native rate; the worklet resamples.
+ */
+export const startMicCapture = async ({
+    stream,
+    onChunk,
+    targetSampleRate = DEFAULT_TARGET_SAMPLE_RATE,
+    chunkMs = DEFAULT_CHUNK_MS,
+}: MicCaptureOptions): Promise<MicCapture> => {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    const context: AudioContext = new AudioContextClass();
+    if (!context.audioWorklet) {
+        await context.close();
+        throw new UnsupportedBrowserError('AudioWorklet');
+    }
+
+    try {
+        await context.audioWorklet.addModule(processorUrl);
+    } catch (e) {
+        await context.close();
+        throw e;
+    }
+
+    const processorOptions: MicCaptureProcessorOptions = {
+        targetSampleRate,
+        chunkSamples: Math.max(1, Math.round((targetSampleRate * chunkMs) / 1000)),
+    };
+    const source = context.createMediaStreamSource(stream);
+    const node = new AudioWorkletNode(context, 'mic-capture-processor', {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        channelCount: 1,
+        channelCountMode: 'explicit',
+        processorOptions,
+    });
+    node.port.onmessage = (event: MessageEvent<Int16Array>) => onChunk(event.data);
+
+    source.connect(node);
+    // The node outputs silence; connecting it keeps the graph pulling it in every browser.
+    node.connect(context.destination);
+
+    return {
+        context,
+        stop: () => {
+            node.port.onmessage = null;
+            source.disconnect();
+            node.disconnect();
+            context.close().catch(console.error);
+        },
+    };
+};
@@ -0,0 +1,214 @@
+import { SummaryEntry } from './summaryLibrary';
+import { concatBytes, encodeMp3 } from '../utils/audioUtils';
+import { toFileStem } from '../utils/downloadUtils';
+import { createZip, ZipFile } from '../utils/zip';
+
+const STORAGE_KEY = 'podcastSettings';
+const FEED_FILE = 'feed.xml';
+const EPISODE_DIR = 'episodes';
+
+export type PodcastSettings = {
+    title: string;
+    author: string;
+    description: string;
+    /** Two-letter language code of the show. */
+    language: string;
+    /** Where the unzipped bundle will be served from; enclosure URLs are built from it. */
+    baseUrl: string;
+};
+
+export const DEFAULT_PODCAST_SETTINGS: PodcastSettings = {
+    title: 'News Briefs',
+    author: 'AI Companion',
+    description: 'Audio summaries of the news, generated with AI Companion.',
+    language: 'en',
+    baseUrl: 'http://localhost:8080/',
+};
+
+export type PodcastCover = {
+    data: Uint8Array;
+    /** `image/jpeg` or `image/png`, the formats podcast apps accept. */
+    type: string;
+};
+
+export type PodcastEpisode = {
+    guid: string;
+    title: string;
+    showNotes: string;
+    publishedAt: Date;
+    /** Path of the MP3 relative to the feed. */
+    fileName: string;
+    byteLength: number;
+    durationSeconds: number;
+};
+
+/** Reads saved settings, falling back field by field when they are missing. */
+export const loadPodcastSettings = (): PodcastSettings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<PodcastSettings> | null;
+        if (!saved) return DEFAULT_PODCAST_SETTINGS;
+        const field = (key: keyof PodcastSettings) =>
+            typeof saved[key] === 'string' && saved[key] ? saved[key] : DEFAULT_PODCAST_SETTINGS[key];
+        return {
+            title: field('title'),
+            author: field('author'),
+            description: field('description'),
+            language: field('language'),
+            baseUrl: field('baseUrl'),
+        };
+    } catch {
+        return DEFAULT_PODCAST_SETTINGS;
+    }
+};
+
+export const savePodcastSettings = (settings: PodcastSettings): void => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.error("Error saving podcast settings: ", e);
+    }
+};
+
+/** Returns the base URL with a trailing slash, or null unless it is an absolute http(s) URL. */
+export const normalizeBaseUrl = (baseUrl: string): string | null => {
+    try {
+        const url = new URL(baseUrl.trim());
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+        if (!url.pathname.endsWith('/')) url.pathname += '/';
+        url.search = '';
+        url.hash = '';
+        return url.href;
+    } catch {
+        return null;
+    }
+};
+
+const escapeXml = (text: string): string =>
+    text.replace(/[<>&"']/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[char]!));
+
+/** Formats seconds as HH:MM:SS, the form every podcast app reads for `itunes:duration`. */
+export const formatItunesDuration = (seconds: number): string => {
+    const total = Math.round(seconds);
+    return [Math.floor(total / 3600), Math.floor((total % 3600) / 60), total % 60]
+        .map(part => String(part).padStart(2, '0'))
+        .join(':');
+};
+
+const coverFileName = (cover: PodcastCover) => (cover.type === 'image/png' ? 'cover.png' : 'cover.jpg');
+
+/**
+ * Builds an RSS 2.0 feed with the iTunes tags Apple Podcasts and most other apps require.
+ * Episodes are listed newest first, whatever order they are passed in.
+ */
+export const buildPodcastFeed = (settings: PodcastSettings, episodes: PodcastEpisode[], coverFile?: string): string => {
+    const baseUrl = normalizeBaseUrl(settings.baseUrl);
+    if (!baseUrl) throw new Error(`Not an absolute http(s) URL: ${settings.baseUrl}`);
+    const url = (path: string) => escapeXml(new URL(path, baseUrl).href);
+    const text = (tag: string, value: string) => `<${tag}>${escapeXml(value)}</${tag}>`;
+
+    const items = [...episodes]
+        .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime())
+        .map(episode => [
+            '    <item>',
+            `      ${text('title', episode.title)}`,
+            `      ${text('description', episode.showNotes)}`,
+            `      ${text('itunes:summary', episode.showNotes)}`,
+            `      <enclosure url="${url(episode.fileName)}" length="${episode.byteLength}" type="audio/mpeg"/>`,
+            `      <guid isPermaLink="false">${escapeXml(episode.guid)}</guid>`,
+            `      ${text('pubDate', episode.publishedAt.toUTCString())}`,
+            `      ${text('itunes:duration', formatItunesDuration(episode.durationSeconds))}`,
+            '      <itunes:episodeType>full</itunes:episodeType>',
+            '      <itunes:explicit>false</itunes:explicit>',
+            '    </item>',
+        ].join('\n'));
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:atom="http://www.w3.org/2005/Atom">',
+        '  <channel>',
+        `    ${text('title', settings.title)}`,
+        `    <link>${url('')}</link>`,
+        `    <atom:link href="${url(FEED_FILE)}" rel="self" type="application/rss+xml"/>`,
+        `    ${text('description', settings.description)}`,
+        `    ${text('language', settings.language)}`,
+        `    ${text('itunes:author', settings.author)}`,
+        '    <itunes:category text="News"/>',
+        '    <itunes:explicit>false</itunes:explicit>',
+        '    <itunes:type>episodic</itunes:type>',
+        ...(coverFile ? [`    <itunes:image href="${url(coverFile)}"/>`] : []),
+        ...items,
+        '  </channel>',
+        '</rss>',
+        '',
+    ].join('\n');
+};
+
+/** A plain page listing the episodes, so opening the bundle's URL in a browser shows something useful. */
+const buildIndexPage = (settings: PodcastSettings, episodes: PodcastEpisode[]): string => [
+    '<!DOCTYPE html>',
+    `<html lang="${escapeXml(settings.language)}">`,
+    '<head>',
+    '  <meta charset="utf-8">',
+    `  <title>${escapeXml(settings.title)}</title>`,
+    `  <link rel="alternate" type="application/rss+xml" href="${FEED_FILE}">`,
+    '</head>',
+    '<body>',
+    `  <h1>${escapeXml(settings.title)}</h1>`,
+    `  <p>${escapeXml(settings.description)} Subscribe with <a href="${FEED_FILE}">this feed</a>.</p>`,
+    ...episodes.map(episode => [
+        `  <h2>${escapeXml(episode.title)}</h2>`,
+        `  <p>${escapeXml(episode.showNotes)}</p>`,
+        `  <audio controls preload="none" src="${escapeXml(episode.fileName)}"></audio>`,
+    ].join('\n')),
+    '</body>',
+    '</html>',
+    '',
+].join('\n');
+
+export type PodcastBundleOptions = {
+    cover?: PodcastCover;
+    /** Called before each episode is encoded, with its 1-based position. */
+    onProgress?: (episode: number, total: number) => void;
+};
+
+/**
+ * Encodes each saved summary with audio to MP3 and packs the episodes, `feed.xml` and an
+ * `index.html` into a ZIP. Unzipped and served from `settings.baseUrl` by any static file
+ * server, the feed can be subscribed to from a podcast app.
+ */
+export const buildPodcastBundle = async (
+    entries: SummaryEntry[],
+    settings: PodcastSettings,
+    { cover, onProgress }: PodcastBundleOptions = {},
+): Promise<Uint8Array> => {
+    const withAudio = entries.filter(entry => entry.audioSegments.length > 0);
+    const files: ZipFile[] = [];
+    const episodes: PodcastEpisode[] = [];
+
+    for (const [index, entry] of withAudio.entries()) {
+        onProgress?.(index + 1, withAudio.length);
+        const pcm = concatBytes(entry.audioSegments);
+        const mp3 = await encodeMp3(pcm, entry.sampleRate);
+        // The id keeps names unique when two summaries share a title.
+        const fileName = `${EPISODE_DIR}/${toFileStem(entry.title)}-${entry.id.slice(0, 8)}.mp3`;
+        files.push({ name: fileName, data: mp3 });
+        episodes.push({
+            guid: entry.id,
+            title: entry.title,
+            showNotes: entry.summary,
+            publishedAt: new Date(entry.createdAt),
+            fileName,
+            byteLength: mp3.byteLength,
+            durationSeconds: pcm.byteLength / 2 / entry.sampleRate,
+        });
+    }
+
+    const coverFile = cover ? coverFileName(cover) : undefined;
+    if (cover && coverFile) files.push({ name: coverFile, data: cover.data });
+    const encoder = new TextEncoder();
+    files.unshift(
+        { name: FEED_FILE, data: encoder.encode(buildPodcastFeed(settings, episodes, coverFile)) },
+        { name: 'index.html', data: encoder.encode(buildIndexPage(settings, episodes)) },
+    );
+    return createZip(files);
+};
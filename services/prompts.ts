@@ -0,0 +1,127 @@
+import { ArticleGrounding, SpeakingPace, SpeakingStyle, SpeechOptions, SummaryOptions, SummaryStyle, VoiceSettings } from './providers/types';
+
+// Typical newsreader pace, used to turn a speaking-time target into a word budget.
+const WORDS_PER_SECOND = 2.5;
+// Keeps a grounded live session's instruction well inside the model's context window.
+const MAX_GROUNDING_CHARS = 60000;
+
+export const SUMMARY_STYLES: { value: SummaryStyle; label: string }[] = [
+    { value: 'brief', label: 'Radio brief' },
+    { value: 'bullets', label: 'Key points' },
+    { value: 'detailed', label: 'Detailed' },
+    { value: 'beginner', label: "Explain like I'm new" },
+];
+
+export const SUMMARY_LANGUAGES: { code: string; name: string }[] = [
+    { code: 'en', name: 'English' },
+    { code: 'es', name: 'Spanish' },
+    { code: 'fr', name: 'French' },
+    { code: 'de', name: 'German' },
+    { code: 'it', name: 'Italian' },
+    { code: 'pt', name: 'Portuguese' },
+    { code: 'nl', name: 'Dutch' },
+    { code: 'pl', name: 'Polish' },
+    { code: 'tr', name: 'Turkish' },
+    { code: 'ar', name: 'Arabic' },
+    { code: 'hi', name: 'Hindi' },
+    { code: 'zh', name: 'Chinese (Mandarin)' },
+    { code: 'ja', name: 'Japanese' },
+    { code: 'ko', name: 'Korean' },
+];
+
+export const DEFAULT_SUMMARY_OPTIONS: SummaryOptions = {
+    style: 'brief',
+    language: 'en',
+};
+
+const STYLE_INSTRUCTIONS: Record<SummaryStyle, string> = {
+    brief: 'Summarize this news article into a concise, easy-to-listen-to paragraph, as if for a radio news brief. Focus on the key facts and outcomes.',
+    bullets: 'Summarize this news article as a short list of key points, one per line, each starting with "- ". Each point should be a complete sentence that makes sense when read aloud.',
+    detailed: 'Write a detailed spoken summary of this news article in a few paragraphs. Cover the key facts, the context behind them, who is involved, and what happens next.',
+    beginner: 'Explain this news article to a listener who knows nothing about the topic. Define any jargon, give the background they need, and keep the sentences short and friendly.',
+};
+
+const SPEECH_INSTRUCTIONS: Record<SummaryStyle, string> = {
+    brief: 'Say with a clear and professional news-reader voice',
+    bullets: 'Read this key point clearly, like a news-reader going through headlines',
+    detailed: 'Say in a measured, informative news-reader voice',
+    beginner: 'Say in a warm, patient voice, like someone explaining the news to a friend',
+};
+
+export const SPEAKING_STYLES: { value: SpeakingStyle; label: string }[] = [
+    { value: 'neutral', label: 'Neutral' },
+    { value: 'upbeat', label: 'Upbeat' },
+    { value: 'calm', label: 'Calm' },
+];
+
+export const SPEAKING_PACES: { value: SpeakingPace; label: string }[] = [
+    { value: 'slow', label: 'Slow' },
+    { value: 'normal', label: 'Normal' },
+    { value: 'fast', label: 'Fast' },
+];
+
+const SPEAKING_STYLE_INSTRUCTIONS: Record<SpeakingStyle, string> = {
+    neutral: '',
+    upbeat: 'with an upbeat, energetic tone',
+    calm: 'with a calm, relaxed tone',
+};
+
+const SPEAKING_PACE_INSTRUCTIONS: Record<SpeakingPace, string> = {
+    slow: 'at a slow, unhurried pace',
+    normal: '',
+    fast: 'at a brisk pace',
+};
+
+const deliveryInstructions = (voice?: VoiceSettings): string[] => voice
+    ? [SPEAKING_STYLE_INSTRUCTIONS[voice.speakingStyle], SPEAKING_PACE_INSTRUCTIONS[voice.pace]].filter(Boolean)
+    : [];
+
+export const languageName = (code: string): string =>
+    SUMMARY_LANGUAGES.find(language => language.code === code)?.name ?? code;
+
+/** Converts the requested length into an approximate word budget. */
+export const targetWordCount = (options: SummaryOptions): number | undefined => {
+    if (!options.length) return undefined;
+    const { unit, value } = options.length;
+    return Math.max(10, Math.round(unit === 'seconds' ? value * WORDS_PER_SECOND : value));
+};
+
+export const buildSummaryPrompt = (articleText: string, options: SummaryOptions): string => {
+    const instructions = [STYLE_INSTRUCTIONS[options.style]];
+    const words = targetWordCount(options);
+    if (words) {
+        instructions.push(`Keep it to about ${words} words.`);
+    }
+    if (options.language !== 'en') {
+        instructions.push(`Write the summary in ${languageName(options.language)}, whatever the language of the article.`);
+    }
+    return `${instructions.join(' ')} Article:\n\n${articleText}`;
+};
+
+export const buildSpeechPrompt = (text: string, options: SpeechOptions): string => {
+    const instructions = [SPEECH_INSTRUCTIONS[options.style], ...deliveryInstructions(options.voice)];
+    if (options.language !== 'en') {
+        instructions.push(`in ${languageName(options.language)}`);
+    }
+    return `${instructions.join(', ')}: ${text}`;
+};
+
+/** System instruction for live sessions, or undefined when the delivery is the default. */
+export const buildLiveVoiceInstruction = (voice?: VoiceSettings): string | undefined => {
+    const delivery = deliveryInstructions(voice);
+    return delivery.length > 0 ? `When you speak, always talk ${delivery.join(' and ')}.` : undefined;
+};
+
+/** System instruction that confines a live session to one article and asks for verbatim quotes. */
+export const buildArticleGroundingInstruction = ({ title, articleText, summary }: ArticleGrounding): string => {
+    const text = articleText.length > MAX_GROUNDING_CHARS
+        ? `${articleText.slice(0, MAX_GROUNDING_CHARS)}\n[The rest of the article was cut for length.]`
+        : articleText;
+    return [
+        'The user wants to talk about the article below. Answer their questions using only what the article says. If it does not cover something, say so rather than guessing.',
+        'Back up each answer by quoting the relevant passage word for word, introduced with "the article says". Keep quotes short, one sentence at most.',
+        `Title: ${title}`,
+        summary ? `Summary the user has already heard:\n${summary}` : '',
+        `Article:\n${text}`,
+    ].filter(Boolean).join('\n\n');
+};
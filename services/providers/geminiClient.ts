@@ -0,0 +1,84 @@
+import { GoogleGenAI } from "@google/genai";
+import { getApiKey, getGeminiProxyUrl } from '../config';
+import { AuthError, NetworkError, toAppError } from '../errors';
+
+type ClientEntry = {
+    client: GoogleGenAI;
+    /** The key or proxy token the client was built with. */
+    credential: string;
+    /** When a proxy token stops being accepted; never for an API key. */
+    expiresAt: number;
+};
+
+// Tokens are replaced this long before they expire, so a request in flight isn't refused.
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+let current: ClientEntry | null = null;
+let pendingToken: Promise<ClientEntry> | null = null;
+
+const missingKeyError = () => new AuthError(
+    'No Gemini API key configured',
+    'No Gemini API key is set. Add yours with the key button at the top of the page.',
+);
+
+const requestProxyToken = async (proxyUrl: string): Promise<ClientEntry> => {
+    let response: Response;
+    try {
+        response = await fetch(new URL('token', proxyUrl.endsWith('/') ? proxyUrl : `${proxyUrl}/`), { method: 'POST' });
+    } catch (e) {
+        throw new NetworkError(`Could not reach the Gemini proxy at ${proxyUrl}`, { cause: e });
+    }
+    if (response.status === 403) {
+        throw new AuthError(
+            `Proxy refused a token: ${await response.text()}`,
+            `The Gemini proxy does not accept requests from ${location.origin}. Add it to PROXY_ALLOWED_ORIGINS and restart the proxy.`,
+        );
+    }
+    if (!response.ok) {
+        throw toAppError({ status: response.status, message: `Proxy refused a token: ${await response.text()}` });
+    }
+    const { token, expiresAt } = await response.json() as { token: string; expiresAt: number };
+    return {
+        client: new GoogleGenAI({ apiKey: token, httpOptions: { baseUrl: proxyUrl } }),
+        credential: token,
+        expiresAt,
+    };
+};
+
+/**
+ * Returns the client every Gemini call goes through, created on first use. Through the proxy
+ * it carries a short-lived token that is renewed as it nears expiry; otherwise it is rebuilt
+ * whenever the API key changes, so a key entered at runtime takes effect on the next call.
+ */
+export const getGeminiClient = async (): Promise<GoogleGenAI> => {
+    const proxyUrl = getGeminiProxyUrl();
+    if (proxyUrl) {
+        if (current && current.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+            return current.client;
+        }
+        // Calls made while a token is being fetched share that request.
+        pendingToken ??= requestProxyToken(proxyUrl).finally(() => {
+            pendingToken = null;
+        });
+        current = await pendingToken;
+        return current.client;
+    }
+
+    const apiKey = getApiKey();
+    if (!apiKey) throw missingKeyError();
+    if (current?.credential !== apiKey) {
+        current = { client: new GoogleGenAI({ apiKey }), credential: apiKey, expiresAt: Infinity };
+    }
+    return current.client;
+};
+
+/** Checks a key against the API without spending tokens. Rejects with an `AppError` if it is unusable. */
+export const validateApiKey = async (apiKey: string): Promise<void> => {
+    if (!apiKey.trim()) throw missingKeyError();
+    try {
+        // A throwaway client, so the shared one keeps working until the new key is known to be good.
+        await new GoogleGenAI({ apiKey: apiKey.trim() }).models.list({ config: { pageSize: 1 } });
+    } catch (e) {
+        throw toAppError(e);
+    }
+};
@@ -0,0 +1,222 @@
+import { FinishReason, GenerateContentResponse, GenerateContentResponseUsageMetadata, LiveServerMessage, Modality, UsageMetadata } from "@google/genai";
+import { EmptyAudioError, SafetyError } from '../errors';
+import { buildArticleGroundingInstruction, buildLiveVoiceInstruction, buildSpeechPrompt, buildSummaryPrompt } from '../prompts';
+import { getGeminiClient } from './geminiClient';
+import { AIProvider, LiveConnectOptions, LiveEvent, LiveSessionHandle, SpeechOptions, SummaryOptions, TokenUsage, UsageCallback, VoiceOption } from './types';
+
+const SUMMARY_MODEL = 'gemini-2.5-flash';
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+const SPEECH_VOICE = 'Kore';
+const LIVE_VOICE = 'Zephyr';
+
+// Prebuilt voices shared by the TTS and native-audio Live models.
+const VOICES: VoiceOption[] = [
+    { name: 'Zephyr', description: 'Bright' },
+    { name: 'Puck', description: 'Upbeat' },
+    { name: 'Charon', description: 'Informative' },
+    { name: 'Kore', description: 'Firm' },
+    { name: 'Fenrir', description: 'Excitable' },
+    { name: 'Leda', description: 'Youthful' },
+    { name: 'Orus', description: 'Firm' },
+    { name: 'Aoede', description: 'Breezy' },
+    { name: 'Callirrhoe', description: 'Easy-going' },
+    { name: 'Autonoe', description: 'Bright' },
+    { name: 'Enceladus', description: 'Breathy' },
+    { name: 'Iapetus', description: 'Clear' },
+    { name: 'Umbriel', description: 'Easy-going' },
+    { name: 'Algieba', description: 'Smooth' },
+    { name: 'Despina', description: 'Smooth' },
+    { name: 'Erinome', description: 'Clear' },
+    { name: 'Algenib', description: 'Gravelly' },
+    { name: 'Rasalgethi', description: 'Informative' },
+    { name: 'Laomedeia', description: 'Upbeat' },
+    { name: 'Achernar', description: 'Soft' },
+    { name: 'Alnilam', description: 'Firm' },
+    { name: 'Schedar', description: 'Even' },
+    { name: 'Gacrux', description: 'Mature' },
+    { name: 'Pulcherrima', description: 'Forward' },
+    { name: 'Achird', description: 'Friendly' },
+    { name: 'Zubenelgenubi', description: 'Casual' },
+    { name: 'Vindemiatrix', description: 'Gentle' },
+    { name: 'Sadachbia', description: 'Lively' },
+    { name: 'Sadaltager', description: 'Knowledgeable' },
+    { name: 'Sulafat', description: 'Warm' },
+];
+
+// Thinking tokens are billed as output, so they count towards the response.
+const toTokenUsage = (metadata: GenerateContentResponseUsageMetadata): TokenUsage => ({
+    promptTokens: metadata.promptTokenCount ?? 0,
+    responseTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+});
+
+const toLiveTokenUsage = (metadata: UsageMetadata): TokenUsage => ({
+    promptTokens: metadata.promptTokenCount ?? 0,
+    responseTokens: (metadata.responseTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+});
+
+const toLiveEvent = (message: LiveServerMessage): LiveEvent => {
+    const content = message.serverContent;
+    const event: LiveEvent = {};
+    if (content?.inputTranscription) {
+        event.inputTranscription = {
+            text: content.inputTranscription.text ?? '',
+            isFinal: content.inputTranscription.finished ?? false,
+        };
+    }
+    if (content?.outputTranscription) {
+        event.outputTranscription = {
+            text: content.outputTranscription.text ?? '',
+            isFinal: content.outputTranscription.finished ?? false,
+        };
+    }
+    const audio = content?.modelTurn?.parts?.[0]?.inlineData?.data;
+    if (audio) {
+        event.audio = audio;
+    }
+    if (content?.interrupted) {
+        event.interrupted = true;
+    }
+    if (content?.turnComplete) {
+        event.turnComplete = true;
+    }
+    const update = message.sessionResumptionUpdate;
+    if (update?.newHandle) {
+        event.resumption = { handle: update.newHandle, resumable: update.resumable ?? false };
+    }
+    if (message.goAway) {
+        event.goAway = true;
+    }
+    const calls = message.toolCall?.functionCalls;
+    if (calls?.length) {
+        event.toolCalls = calls.map(call => ({ id: call.id ?? '', name: call.name ?? '', args: call.args ?? {} }));
+    }
+    if (message.usageMetadata) {
+        event.usage = toLiveTokenUsage(message.usageMetadata);
+    }
+    return event;
+};
+
+const BLOCKED_FINISH_REASONS = new Set<FinishReason>([
+    FinishReason.SAFETY,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.BLOCKLIST,
+    FinishReason.SPII,
+]);
+
+/** Safety filters return an empty response rather than an error; this turns that into one. */
+const assertNotBlocked = (response: GenerateContentResponse) => {
+    const reason = response.promptFeedback?.blockReason ?? response.candidates?.[0]?.finishReason;
+    if (response.promptFeedback?.blockReason || BLOCKED_FINISH_REASONS.has(reason as FinishReason)) {
+        throw new SafetyError(`Response blocked: ${reason}`);
+    }
+};
+
+export const createGeminiProvider = (): AIProvider => ({
+    name: 'gemini',
+    summaryModel: SUMMARY_MODEL,
+    speechModel: TTS_MODEL,
+    liveModel: LIVE_MODEL,
+    speechVoice: SPEECH_VOICE,
+    liveVoice: LIVE_VOICE,
+    voices: VOICES,
+
+    async summarize(articleText: string, options: SummaryOptions, onUsage?: UsageCallback): Promise<string> {
+        const ai = await getGeminiClient();
+        const response = await ai.models.generateContent({
+            model: SUMMARY_MODEL,
+            contents: buildSummaryPrompt(articleText, options),
+        });
+
+        if (response.usageMetadata) onUsage?.(toTokenUsage(response.usageMetadata));
+        assertNotBlocked(response);
+        return response.text ?? '';
+    },
+
+    async *summarizeStream(articleText: string, options: SummaryOptions, onUsage?: UsageCallback): AsyncIterable<string> {
+        const ai = await getGeminiClient();
+        const stream = await ai.models.generateContentStream({
+            model: SUMMARY_MODEL,
+            contents: buildSummaryPrompt(articleText, options),
+        });
+
+        // Each chunk carries the running totals, so only the last one is reported.
+        let usage: GenerateContentResponseUsageMetadata | undefined;
+        try {
+            for await (const chunk of stream) {
+                usage = chunk.usageMetadata ?? usage;
+                assertNotBlocked(chunk);
+                if (chunk.text) yield chunk.text;
+            }
+        } finally {
+            if (usage) onUsage?.(toTokenUsage(usage));
+        }
+    },
+
+    async synthesizeSpeech(text: string, options: SpeechOptions, onUsage?: UsageCallback): Promise<string> {
+        const ai = await getGeminiClient();
+        const response = await ai.models.generateContent({
+            model: TTS_MODEL,
+            contents: [{ parts: [{ text: buildSpeechPrompt(text, options) }] }],
+            config: {
+                responseModalities: [Modality.AUDIO],
+                speechConfig: {
+                    voiceConfig: {
+                        prebuiltVoiceConfig: { voiceName: options.voice?.voice ?? SPEECH_VOICE },
+                    },
+                },
+            },
+        });
+
+        if (response.usageMetadata) onUsage?.(toTokenUsage(response.usageMetadata));
+        const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        if (!audioData) {
+            assertNotBlocked(response);
+            throw new EmptyAudioError();
+        }
+
+        return audioData;
+    },
+
+    async connectLive({ callbacks, voice, resumptionHandle, tools, grounding }: LiveConnectOptions): Promise<LiveSessionHandle> {
+        const ai = await getGeminiClient();
+        const session = await ai.live.connect({
+            model: LIVE_MODEL,
+            config: {
+                responseModalities: [Modality.AUDIO],
+                inputAudioTranscription: {},
+                outputAudioTranscription: {},
+                speechConfig: {
+                    voiceConfig: { prebuiltVoiceConfig: { voiceName: voice?.voice ?? LIVE_VOICE } },
+                },
+                systemInstruction: [buildLiveVoiceInstruction(voice), grounding && buildArticleGroundingInstruction(grounding)]
+                    .filter(Boolean)
+                    .join('\n\n') || undefined,
+                // Always requested, so that a handle is available if the connection drops.
+                sessionResumption: { handle: resumptionHandle },
+                tools: tools?.length
+                    ? [{
+                        functionDeclarations: tools.map(({ name, description, parameters }) => ({
+                            name,
+                            description,
+                            parametersJsonSchema: parameters,
+                        })),
+                    }]
+                    : undefined,
+            },
+            callbacks: {
+                onopen: callbacks.onopen,
+                onmessage: (message: LiveServerMessage) => callbacks.onmessage(toLiveEvent(message)),
+                onerror: callbacks.onerror,
+                onclose: (event: CloseEvent) => callbacks.onclose(event?.reason || undefined),
+            },
+        });
+
+        return {
+            sendRealtimeInput: (input) => session.sendRealtimeInput(input),
+            sendText: (text) => session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true }),
+            sendToolResponse: (results) => session.sendToolResponse({ functionResponses: results }),
+            close: () => session.close(),
+        };
+    },
+});
@@ -0,0 +1,18 @@
+import { getProviderName } from '../config';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { AIProvider } from './types';
+
+let activeProvider: AIProvider | null = null;
+
+export const getProvider = (): AIProvider => {
+    if (!activeProvider) {
+        activeProvider = getProviderName() === 'mock' ? createMockProvider() : createGeminiProvider();
+    }
+    return activeProvider;
+};
+
+/** Replaces the active provider, e.g. to inject a fake in tests. */
+export const setProvider = (provider: AIProvider | null): void => {
+    activeProvider = provider;
+};
@@ -0,0 +1,190 @@
+import { encode } from '../../utils/audioUtils';
+import { NetworkError } from '../errors';
+import { targetWordCount } from '../prompts';
+import { base64PcmSeconds } from '../telemetry';
+import { AIProvider, ArticleGrounding, LiveConnectOptions, LiveSessionHandle, SpeechOptions, SummaryOptions, VoiceOption, VoiceSettings } from './types';
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const INPUT_SAMPLE_RATE = 16000;
+// Measured in audio rather than chunks, so a turn is about three seconds of speech whatever the chunk length.
+const SECONDS_PER_TURN = 3;
+
+// Each voice is a different pitch so they can be told apart in a preview.
+const VOICES: (VoiceOption & { frequency: number })[] = [
+    { name: 'Low', description: 'Low tone', frequency: 165 },
+    { name: 'Mid', description: 'Middle tone', frequency: 220 },
+    { name: 'High', description: 'High tone', frequency: 330 },
+];
+const PACE_SECONDS_PER_WORD = { slow: 0.4, normal: 0.3, fast: 0.22 };
+
+const toneFor = (voice?: VoiceSettings) => ({
+    frequency: VOICES.find(option => option.name === voice?.voice)?.frequency ?? 220,
+    secondsPerWord: PACE_SECONDS_PER_WORD[voice?.pace ?? 'normal'],
+});
+
+// A turn with a `tool` calls it first when it is available, and fills `{key}` in the reply from its response.
+const LIVE_SCRIPT: { user: string; model: string; tool?: string }[] = [
+    { user: 'Hello, can you hear me?', model: 'Yes, loud and clear. This is the offline mock companion.' },
+    { user: 'What can you do?', model: 'I replay a short scripted conversation so you can work without a network.' },
+    { user: 'What time is it?', model: 'According to your device it is {local}.', tool: 'get_current_time' },
+    { user: 'Thanks, that is all.', model: 'You are welcome. The script starts over from here.' },
+];
+
+const articleSentences = (articleText: string): string[] =>
+    articleText
+        .replace(/\s+/g, ' ')
+        .trim()
+        .split(/(?<=[.!?])\s+/)
+        .filter(Boolean);
+
+/** Answers that quote the article, so that quote links can be tried offline. */
+const groundedScript = ({ articleText }: ArticleGrounding): typeof LIVE_SCRIPT => {
+    const sentences = articleSentences(articleText);
+    return [
+        { user: 'What is the article about?', model: `The article says ${sentences[0] ?? 'nothing yet.'}` },
+        { user: 'What else does it say?', model: `It also says ${sentences[1] ?? sentences[0] ?? 'nothing more.'}` },
+        { user: 'Does it mention the weather on Mars?', model: 'No, the article does not cover that.' },
+    ];
+};
+
+/** Builds a deterministic sine tone whose length scales with the text, as base64 16-bit PCM. */
+const synthesizeTone = (text: string, { frequency, secondsPerWord }: ReturnType<typeof toneFor>): string => {
+    const words = text.trim().split(/\s+/).filter(Boolean).length;
+    const seconds = Math.min(30, Math.max(0.5, words * secondsPerWord));
+    const frameCount = Math.round(seconds * OUTPUT_SAMPLE_RATE);
+    const fadeFrames = Math.round(0.02 * OUTPUT_SAMPLE_RATE);
+    const pcm = new Int16Array(frameCount);
+    for (let i = 0; i < frameCount; i++) {
+        const fade = Math.min(1, i / fadeFrames, (frameCount - 1 - i) / fadeFrames);
+        const sample = Math.sin((2 * Math.PI * frequency * i) / OUTPUT_SAMPLE_RATE) * 0.2 * fade;
+        pcm[i] = Math.round(sample * 32767);
+    }
+    return encode(new Uint8Array(pcm.buffer));
+};
+
+const cannedSummary = (articleText: string, options: SummaryOptions): string => {
+    const sentences = articleSentences(articleText);
+    const lead = sentences.slice(0, options.style === 'detailed' ? 4 : 2);
+    const words = targetWordCount(options);
+    const intro = options.language === 'en' ? '' : `[${options.language}] `;
+    const summary = options.style === 'bullets'
+        ? ['- This is an offline mock summary.', ...lead.map(sentence => `- ${sentence}`)].join('\n')
+        : `This is an offline mock summary. ${lead.join(' ')}`.trim();
+    return intro + (words ? summary.split(' ').slice(0, words).join(' ') : summary);
+};
+
+export const createMockProvider = (): AIProvider => ({
+    name: 'mock',
+    summaryModel: 'mock-summary',
+    speechModel: 'mock-tone',
+    liveModel: 'mock-live',
+    speechVoice: 'Mid',
+    liveVoice: 'Mid',
+    voices: VOICES.map(({ name, description }) => ({ name, description })),
+
+    async summarize(articleText: string, options: SummaryOptions): Promise<string> {
+        return cannedSummary(articleText, options);
+    },
+
+    async *summarizeStream(articleText: string, options: SummaryOptions): AsyncIterable<string> {
+        const words = cannedSummary(articleText, options).split(/(?<=\s)/);
+        for (const word of words) {
+            await new Promise(resolve => setTimeout(resolve, 15));
+            yield word;
+        }
+    },
+
+    async synthesizeSpeech(text: string, options: SpeechOptions): Promise<string> {
+        return synthesizeTone(text, toneFor(options.voice));
+    },
+
+    async connectLive({ callbacks, voice, resumptionHandle, tools, grounding }: LiveConnectOptions): Promise<LiveSessionHandle> {
+        let closed = false;
+        let secondsReceived = 0;
+        // A resumed session carries on with the script instead of starting over.
+        let turnIndex = Number(resumptionHandle?.replace('mock-turn-', '')) || 0;
+        const timers = new Set<ReturnType<typeof setTimeout>>();
+
+        // Going offline in the browser drops the session, so reconnection can be tried without a network.
+        if (navigator.onLine === false) {
+            throw new NetworkError('Network unavailable.');
+        }
+        const handleOffline = () => {
+            if (closed) return;
+            closed = true;
+            timers.forEach(clearTimeout);
+            timers.clear();
+            window.removeEventListener('offline', handleOffline);
+            callbacks.onerror(new NetworkError('Network connection lost.'));
+        };
+        window.addEventListener('offline', handleOffline);
+
+        const schedule = (fn: () => void, delayMs: number) => {
+            const timer = setTimeout(() => {
+                timers.delete(timer);
+                if (!closed) fn();
+            }, delayMs);
+            timers.add(timer);
+        };
+
+        const script = grounding ? groundedScript(grounding) : LIVE_SCRIPT;
+        let pendingCall: { id: string; reply: string } | null = null;
+
+        const reply = (text: string) => {
+            schedule(() => {
+                callbacks.onmessage({
+                    outputTranscription: { text, isFinal: true },
+                    audio: synthesizeTone(text, toneFor(voice ?? { voice: 'High', speakingStyle: 'neutral', pace: 'normal' })),
+                });
+                callbacks.onmessage({ turnComplete: true, resumption: { handle: `mock-turn-${turnIndex}`, resumable: true } });
+            }, 300);
+        };
+
+        const fillReply = (text: string, response: Record<string, unknown>) =>
+            text.replace(/\{(\w+)\}/g, (_, key: string) => String(response[key] ?? 'unknown'));
+
+        const playNextTurn = () => {
+            const turn = script[turnIndex % script.length];
+            turnIndex++;
+            callbacks.onmessage({ inputTranscription: { text: turn.user, isFinal: true } });
+            if (turn.tool && tools?.some(tool => tool.name === turn.tool)) {
+                const call = { id: `mock-call-${turnIndex}`, name: turn.tool, args: {} };
+                pendingCall = { id: call.id, reply: turn.model };
+                schedule(() => callbacks.onmessage({ toolCalls: [call] }), 150);
+                return;
+            }
+            reply(fillReply(turn.model, {}));
+        };
+
+        schedule(callbacks.onopen, 0);
+
+        return {
+            sendRealtimeInput: (input) => {
+                if (closed || !('media' in input)) return;
+                secondsReceived += base64PcmSeconds(input.media.data, INPUT_SAMPLE_RATE);
+                if (secondsReceived >= SECONDS_PER_TURN) {
+                    secondsReceived -= SECONDS_PER_TURN;
+                    playNextTurn();
+                }
+            },
+            sendText: (text) => {
+                if (closed) return;
+                reply(`You typed: ${text.trim()}. The offline mock answers typed turns with an echo.`);
+            },
+            sendToolResponse: (results) => {
+                const result = results.find(candidate => candidate.id === pendingCall?.id);
+                if (closed || !pendingCall || !result) return;
+                reply(fillReply(pendingCall.reply, result.response));
+                pendingCall = null;
+            },
+            close: () => {
+                if (closed) return;
+                closed = true;
+                timers.forEach(clearTimeout);
+                timers.clear();
+                window.removeEventListener('offline', handleOffline);
+                callbacks.onclose();
+            },
+        };
+    },
+});
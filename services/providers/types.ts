@@ -0,0 +1,166 @@
+/**
+ * Provider-neutral contracts for the AI backends the app talks to.
+ * Views and services depend on these shapes only, never on a vendor SDK.
+ */
+
+export type ProviderName = 'gemini' | 'mock';
+
+export type SummaryStyle = 'brief' | 'bullets' | 'detailed' | 'beginner';
+
+export type SummaryLength = {
+    unit: 'words' | 'seconds';
+    value: number;
+};
+
+export type SummaryOptions = {
+    style: SummaryStyle;
+    /** Omitted to let the style decide. */
+    length?: SummaryLength;
+    /** ISO 639-1 code of the output language. */
+    language: string;
+};
+
+export type SpeakingStyle = 'neutral' | 'upbeat' | 'calm';
+
+export type SpeakingPace = 'slow' | 'normal' | 'fast';
+
+/** How synthesized speech should sound, shared by the Summarizer and Live Conversation. */
+export type VoiceSettings = {
+    /**
+     * Name of one of the provider's prebuilt voices. Until the user picks one, summaries use
+     * the provider's `speechVoice` and conversations its `liveVoice`.
+     */
+    voice?: string;
+    speakingStyle: SpeakingStyle;
+    pace: SpeakingPace;
+};
+
+export type VoiceOption = {
+    name: string;
+    description: string;
+};
+
+export type SpeechOptions = Pick<SummaryOptions, 'style' | 'language'> & {
+    /** Falls back to the provider's default voice and a neutral delivery. */
+    voice?: VoiceSettings;
+};
+
+/** Tokens the backend billed for one call, or one live turn. */
+export type TokenUsage = {
+    promptTokens: number;
+    responseTokens: number;
+};
+
+/** Receives a call's token counts once the backend reports them; backends that don't, never call it. */
+export type UsageCallback = (usage: TokenUsage) => void;
+
+export type AudioChunk = {
+    /** Base64-encoded little-endian 16-bit PCM. */
+    data: string;
+    mimeType: string;
+};
+
+export type LiveTranscription = {
+    text: string;
+    isFinal: boolean;
+};
+
+/** A JSON Schema object describing a tool's arguments. */
+export type ToolParameters = {
+    type: 'object';
+    properties: Record<string, { type: 'string' | 'number' | 'integer' | 'boolean'; description: string; enum?: string[] }>;
+    required?: string[];
+};
+
+export type LiveToolDeclaration = {
+    name: string;
+    /** Tells the model when to call the tool. */
+    description: string;
+    parameters: ToolParameters;
+};
+
+export type LiveToolCall = {
+    id: string;
+    name: string;
+    args: Record<string, unknown>;
+};
+
+export type LiveToolResult = {
+    /** The `id` of the call this answers. */
+    id: string;
+    name: string;
+    response: Record<string, unknown>;
+};
+
+/** A single server event from a live session, flattened from the vendor message. */
+export type LiveEvent = {
+    inputTranscription?: LiveTranscription;
+    outputTranscription?: LiveTranscription;
+    /** Base64-encoded 24 kHz mono PCM from the model. */
+    audio?: string;
+    interrupted?: boolean;
+    turnComplete?: boolean;
+    /** A new handle for resuming this session on another connection; only the latest one is useful. */
+    resumption?: { handle: string; resumable: boolean };
+    /** The server is about to drop the connection and the client should reconnect. */
+    goAway?: boolean;
+    /** Calls the model wants run; answer each with `sendToolResponse`. */
+    toolCalls?: LiveToolCall[];
+    /** Tokens billed for the turn, reported as it completes. */
+    usage?: TokenUsage;
+};
+
+export type LiveCallbacks = {
+    onopen: () => void;
+    onmessage: (event: LiveEvent) => void | Promise<void>;
+    onerror: (error: ErrorEvent | Error) => void;
+    /** `reason` is the server's explanation for closing, when it gave one. */
+    onclose: (reason?: string) => void;
+};
+
+/** An article a live session should answer questions about. */
+export type ArticleGrounding = {
+    title: string;
+    articleText: string;
+    /** The summary the user has already heard, if any. */
+    summary?: string;
+};
+
+export type LiveConnectOptions = {
+    callbacks: LiveCallbacks;
+    voice?: VoiceSettings;
+    /** Handle from an earlier `resumption` event; the conversation continues where it left off. */
+    resumptionHandle?: string;
+    tools?: LiveToolDeclaration[];
+    grounding?: ArticleGrounding;
+};
+
+/** Mic audio, or notice that the mic stopped sending so the model shouldn't wait for more. */
+export type RealtimeInput = { media: AudioChunk } | { audioStreamEnd: true };
+
+export interface LiveSessionHandle {
+    sendRealtimeInput(input: RealtimeInput): void;
+    /** Sends a typed user turn; the model answers it like a spoken one. */
+    sendText(text: string): void;
+    sendToolResponse(results: LiveToolResult[]): void;
+    close(): void;
+}
+
+export interface AIProvider {
+    readonly name: ProviderName;
+    readonly summaryModel: string;
+    readonly speechModel: string;
+    readonly liveModel: string;
+    /** Voice for summaries when no voice has been chosen. */
+    readonly speechVoice: string;
+    /** Voice for Live Conversations when no voice has been chosen. */
+    readonly liveVoice: string;
+    readonly voices: VoiceOption[];
+    /** Returns a spoken-style summary of the article. */
+    summarize(articleText: string, options: SummaryOptions, onUsage?: UsageCallback): Promise<string>;
+    /** Yields the same summary as `summarize`, as text deltas while it is generated. */
+    summarizeStream(articleText: string, options: SummaryOptions, onUsage?: UsageCallback): AsyncIterable<string>;
+    /** Returns base64-encoded 24 kHz mono 16-bit PCM for the given text. */
+    synthesizeSpeech(text: string, options: SpeechOptions, onUsage?: UsageCallback): Promise<string>;
+    connectLive(options: LiveConnectOptions): Promise<LiveSessionHandle>;
+}
@@ -0,0 +1,46 @@
+/** A timer set through the `set_timer` tool that has gone off. */
+export type Reminder = {
+    id: string;
+    label: string;
+    firedAt: number;
+};
+
+// Kept here rather than in the conversation view, which unmounts on a tab switch.
+const pending = new Set<ReturnType<typeof setTimeout>>();
+let fired: Reminder[] = [];
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+/** Adds a reminder called `label` to the fired list after `delayMs`, for as long as the page stays open. */
+export const scheduleReminder = (label: string, delayMs: number): void => {
+    const timer = setTimeout(() => {
+        pending.delete(timer);
+        fired = [...fired, { id: crypto.randomUUID(), label, firedAt: Date.now() }];
+        notify();
+    }, delayMs);
+    pending.add(timer);
+};
+
+/** Reminders that have gone off and not been dismissed, oldest first. */
+export const getFiredReminders = (): Reminder[] => fired;
+
+export const dismissReminder = (id: string): void => {
+    fired = fired.filter(reminder => reminder.id !== id);
+    notify();
+};
+
+/** Cancels pending timers and forgets fired reminders. */
+export const clearReminders = (): void => {
+    pending.forEach(clearTimeout);
+    pending.clear();
+    fired = [];
+    notify();
+};
+
+export const subscribeToReminders = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
@@ -0,0 +1,41 @@
+import { generateSpeech } from './geminiService';
+import { SpeechOptions } from './providers/types';
+import { decode } from '../utils/audioUtils';
+import { stripListMarker } from '../utils/textUtils';
+
+// Sentences synthesized ahead of the one being handed over; enough to keep playback fed.
+const MAX_AHEAD = 3;
+
+/**
+ * Synthesizes a few sentences ahead but hands their PCM to `onSegment` strictly in the order
+ * they were enqueued, so playback can start on the first sentence while later ones are pending.
+ * `drain` resolves once every enqueued sentence has been delivered, or rejects with the first failure.
+ * Once `isCancelled` returns true, no further sentences are requested or delivered.
+ */
+export const createSpeechQueue = (
+    options: SpeechOptions,
+    onSegment: (pcm: Uint8Array, sentence: string) => Promise<void> | void,
+    isCancelled: () => boolean = () => false,
+) => {
+    let queue: Promise<void> = Promise.resolve();
+    // When each enqueued sentence was handed over.
+    const delivered: Promise<void>[] = [];
+
+    const enqueue = (sentence: string) => {
+        // A failure earlier in the queue rejects `ready` too, so the rest are never requested.
+        const ready = delivered[delivered.length - MAX_AHEAD] ?? Promise.resolve();
+        const speech = ready.then(() => (isCancelled() ? null : generateSpeech(stripListMarker(sentence), options)));
+        speech.catch(() => { /* surfaced when the queue reaches it */ });
+        queue = queue.then(async () => {
+            const audio = await speech;
+            if (audio !== null && !isCancelled()) {
+                await onSegment(decode(audio), sentence);
+            }
+        });
+        delivered.push(queue);
+    };
+
+    const drain = () => queue;
+
+    return { enqueue, drain };
+};
@@ -0,0 +1,70 @@
+import { SUMMARIES_STORE, withStore } from './database';
+import { SummaryOptions } from './providers/types';
+
+export type SummaryEntry = {
+    id: string;
+    title: string;
+    articleText: string;
+    summary: string;
+    /** The sentence each audio segment speaks; absent on entries saved before it was recorded. */
+    sentences?: string[];
+    /** 16-bit mono PCM per synthesized sentence, in reading order. */
+    audioSegments: Uint8Array[];
+    sampleRate: number;
+    voice: string;
+    summaryModel: string;
+    speechModel: string;
+    /** Absent on entries saved before summary options existed. */
+    options?: SummaryOptions;
+    /** Milliseconds since the epoch. */
+    createdAt: number;
+};
+
+export type NewSummaryEntry = Omit<SummaryEntry, 'id'>;
+
+export type StorageUsage = {
+    /** Bytes of audio and text held by the library itself. */
+    libraryBytes: number;
+    /** Origin-wide usage and quota from the browser, when it reports them. */
+    usage?: number;
+    quota?: number;
+};
+
+export const entrySize = (entry: SummaryEntry): number =>
+    entry.audioSegments.reduce((sum, segment) => sum + segment.byteLength, 0)
+    + (entry.articleText.length + entry.summary.length + entry.title.length) * 2;
+
+export const saveSummary = async (entry: NewSummaryEntry): Promise<SummaryEntry> => {
+    const saved: SummaryEntry = { ...entry, id: crypto.randomUUID() };
+    await withStore(SUMMARIES_STORE, 'readwrite', store => store.put(saved));
+    return saved;
+};
+
+/** Returns all saved summaries, newest first. */
+export const listSummaries = async (): Promise<SummaryEntry[]> => {
+    const entries = await withStore(SUMMARIES_STORE, 'readonly', store => store.index('createdAt').getAll());
+    return (entries as SummaryEntry[]).reverse();
+};
+
+export const deleteSummary = async (id: string): Promise<void> => {
+    await withStore(SUMMARIES_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const searchSummaries = (entries: SummaryEntry[], query: string): SummaryEntry[] => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return entries;
+    return entries.filter(entry => {
+        const haystack = `${entry.title}\n${entry.summary}\n${entry.articleText}`.toLowerCase();
+        return terms.every(term => haystack.includes(term));
+    });
+};
+
+export const getStorageUsage = async (entries: SummaryEntry[]): Promise<StorageUsage> => {
+    const libraryBytes = entries.reduce((sum, entry) => sum + entrySize(entry), 0);
+    try {
+        const estimate = await navigator.storage?.estimate?.();
+        return { libraryBytes, usage: estimate?.usage, quota: estimate?.quota };
+    } catch {
+        return { libraryBytes };
+    }
+};
@@ -0,0 +1,238 @@
+import { BudgetExceededError } from './errors';
+import { TokenUsage } from './providers/types';
+
+const USAGE_STORAGE_KEY = 'usageTelemetry';
+const BUDGET_STORAGE_KEY = 'usageBudget';
+// Days of history kept; older days are dropped when a new one starts.
+const HISTORY_DAYS = 30;
+// Live sessions record usage ten times a second, so saving and notifying are batched.
+const FLUSH_DELAY_MS = 1000;
+
+/** What an API call was for; each uses its own model and is priced separately. */
+export type UsageKind = 'summary' | 'speech' | 'live';
+
+export const USAGE_KINDS: UsageKind[] = ['summary', 'speech', 'live'];
+
+export type UsageTotals = {
+    /** Requests made, counting each retry and each live connection. */
+    calls: number;
+    failures: number;
+    promptTokens: number;
+    responseTokens: number;
+    /** Characters sent for speech synthesis. */
+    ttsCharacters: number;
+    liveInputSeconds: number;
+    liveOutputSeconds: number;
+    /** Sum and count of time-to-first-byte samples, so days can be averaged. */
+    ttfbMs: number;
+    ttfbSamples: number;
+    latencyMs: number;
+    latencySamples: number;
+};
+
+export type UsageDay = {
+    /** Local date, `YYYY-MM-DD`. */
+    date: string;
+    byKind: Record<UsageKind, UsageTotals>;
+};
+
+export type BudgetSettings = {
+    /** Daily estimated spend in USD at which a warning is shown; 0 turns it off. */
+    warnAtUsd: number;
+    /** Daily estimated spend in USD at which new requests are refused; 0 turns it off. */
+    capAtUsd: number;
+};
+
+export type BudgetStatus = {
+    spentUsd: number;
+    level: 'ok' | 'warning' | 'exceeded';
+    settings: BudgetSettings;
+};
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = { warnAtUsd: 0, capAtUsd: 0 };
+
+// List prices, in USD per million tokens, of the models the Gemini provider uses for each kind:
+// gemini-2.5-flash, its TTS preview, and native-audio Live. Estimates only; check the price list.
+const PRICES: Record<UsageKind, { prompt: number; response: number }> = {
+    summary: { prompt: 0.3, response: 2.5 },
+    speech: { prompt: 0.5, response: 10 },
+    live: { prompt: 3, response: 12 },
+};
+
+const emptyTotals = (): UsageTotals => ({
+    calls: 0,
+    failures: 0,
+    promptTokens: 0,
+    responseTokens: 0,
+    ttsCharacters: 0,
+    liveInputSeconds: 0,
+    liveOutputSeconds: 0,
+    ttfbMs: 0,
+    ttfbSamples: 0,
+    latencyMs: 0,
+    latencySamples: 0,
+});
+
+const emptyDay = (date: string): UsageDay => ({
+    date,
+    byKind: { summary: emptyTotals(), speech: emptyTotals(), live: emptyTotals() },
+});
+
+const dateKey = (date: Date): string =>
+    [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(part => String(part).padStart(2, '0')).join('-');
+
+let history: UsageDay[] | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+
+const loadHistory = (): UsageDay[] => {
+    if (history) return history;
+    try {
+        const saved = JSON.parse(localStorage.getItem(USAGE_STORAGE_KEY) ?? '[]') as UsageDay[];
+        // Filled in field by field, so totals added in later versions start at zero.
+        history = Array.isArray(saved)
+            ? saved.map(day => ({
+                date: day.date,
+                byKind: Object.fromEntries(USAGE_KINDS.map(kind => [kind, { ...emptyTotals(), ...day.byKind?.[kind] }])) as UsageDay['byKind'],
+            }))
+            : [];
+    } catch {
+        history = [];
+    }
+    return history;
+};
+
+const flush = () => {
+    flushTimer = null;
+    try {
+        localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(loadHistory()));
+    } catch (e) {
+        console.error("Error saving usage telemetry: ", e);
+    }
+    listeners.forEach(listener => listener());
+};
+
+const today = (): UsageDay => {
+    const days = loadHistory();
+    const date = dateKey(new Date());
+    if (days[0]?.date !== date) {
+        days.unshift(emptyDay(date));
+        days.length = Math.min(days.length, HISTORY_DAYS);
+    }
+    return days[0];
+};
+
+/** Adds to today's totals for one kind of call. */
+export const recordUsage = (kind: UsageKind, delta: Partial<UsageTotals>): void => {
+    const totals = today().byKind[kind];
+    (Object.keys(delta) as (keyof UsageTotals)[]).forEach(field => {
+        totals[field] += delta[field] ?? 0;
+    });
+    flushTimer ??= setTimeout(flush, FLUSH_DELAY_MS);
+};
+
+/** Recorded days, newest first. */
+export const getUsageHistory = (): UsageDay[] => loadHistory();
+
+/** Forgets all recorded usage. Budget settings are kept. */
+export const clearUsageHistory = (): void => {
+    history = [];
+    if (flushTimer) clearTimeout(flushTimer);
+    flush();
+};
+
+/** Called, at most about once a second, after usage is recorded. */
+export const subscribeToUsage = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+/** Estimated spend in USD for one kind's totals, from its token counts. */
+export const estimateCost = (kind: UsageKind, totals: UsageTotals): number =>
+    (totals.promptTokens * PRICES[kind].prompt + totals.responseTokens * PRICES[kind].response) / 1_000_000;
+
+export const estimateDayCost = (day: UsageDay): number =>
+    USAGE_KINDS.reduce((sum, kind) => sum + estimateCost(kind, day.byKind[kind]), 0);
+
+export const loadBudgetSettings = (): BudgetSettings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(BUDGET_STORAGE_KEY) ?? 'null') as Partial<BudgetSettings> | null;
+        const amount = (value: unknown, fallback: number) => (typeof value === 'number' && value >= 0 ? value : fallback);
+        return {
+            warnAtUsd: amount(saved?.warnAtUsd, DEFAULT_BUDGET_SETTINGS.warnAtUsd),
+            capAtUsd: amount(saved?.capAtUsd, DEFAULT_BUDGET_SETTINGS.capAtUsd),
+        };
+    } catch {
+        return DEFAULT_BUDGET_SETTINGS;
+    }
+};
+
+export const saveBudgetSettings = (settings: BudgetSettings): void => {
+    try {
+        localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.error("Error saving budget settings: ", e);
+    }
+    listeners.forEach(listener => listener());
+};
+
+export const getBudgetStatus = (): BudgetStatus => {
+    const settings = loadBudgetSettings();
+    const spentUsd = estimateDayCost(today());
+    const level = settings.capAtUsd > 0 && spentUsd >= settings.capAtUsd
+        ? 'exceeded'
+        : settings.warnAtUsd > 0 && spentUsd >= settings.warnAtUsd ? 'warning' : 'ok';
+    return { spentUsd, level, settings };
+};
+
+/** Throws a `BudgetExceededError` once today's estimated spend has reached the cap. */
+export const assertWithinBudget = (): void => {
+    const { spentUsd, level, settings } = getBudgetStatus();
+    if (level === 'exceeded') throw new BudgetExceededError(spentUsd, settings.capAtUsd);
+};
+
+/** Seconds of 16-bit mono PCM in a base64 string. */
+export const base64PcmSeconds = (base64: string, sampleRate: number): number => {
+    const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+    return Math.floor((base64.length * 3) / 4 - padding) / 2 / sampleRate;
+};
+
+export type CallTracker = {
+    /** Marks the first part of a streamed response arriving. */
+    firstByte: () => void;
+    /** Passed to the provider as its `onUsage` callback. */
+    addTokens: (usage: TokenUsage) => void;
+    /** Records the call with its total latency, plus anything else it used. Only the first call counts. */
+    finish: (ok: boolean, extra?: Partial<UsageTotals>) => void;
+};
+
+/** Times one API request from now until `finish`, and records it with its token counts. */
+export const trackCall = (kind: UsageKind): CallTracker => {
+    const startedAt = performance.now();
+    let ttfbMs: number | null = null;
+    let tokens: TokenUsage = { promptTokens: 0, responseTokens: 0 };
+    let isFinished = false;
+    return {
+        firstByte: () => {
+            ttfbMs ??= performance.now() - startedAt;
+        },
+        addTokens: (usage) => {
+            tokens = usage;
+        },
+        finish: (ok, extra = {}) => {
+            if (isFinished) return;
+            isFinished = true;
+            recordUsage(kind, {
+                calls: 1,
+                failures: ok ? 0 : 1,
+                ...tokens,
+                ...(ttfbMs !== null ? { ttfbMs, ttfbSamples: 1 } : {}),
+                latencyMs: performance.now() - startedAt,
+                latencySamples: 1,
+                ...extra,
+            });
+        },
+    };
+};
@@ -0,0 +1,37 @@
+import { getProvider } from './providers';
+import { SpeakingPace, SpeakingStyle, VoiceSettings } from './providers/types';
+
+const STORAGE_KEY = 'voiceSettings';
+const SPEAKING_STYLES: SpeakingStyle[] = ['neutral', 'upbeat', 'calm'];
+const SPEAKING_PACES: SpeakingPace[] = ['slow', 'normal', 'fast'];
+
+// No voice, so summaries and conversations each keep the provider's default for them.
+export const getDefaultVoiceSettings = (): VoiceSettings => ({
+    speakingStyle: 'neutral',
+    pace: 'normal',
+});
+
+/** Reads saved settings, falling back field by field when they are missing or no longer valid. */
+export const loadVoiceSettings = (): VoiceSettings => {
+    const defaults = getDefaultVoiceSettings();
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<VoiceSettings> | null;
+        if (!saved) return defaults;
+        const voiceNames = getProvider().voices.map(option => option.name);
+        return {
+            voice: saved.voice && voiceNames.includes(saved.voice) ? saved.voice : defaults.voice,
+            speakingStyle: saved.speakingStyle && SPEAKING_STYLES.includes(saved.speakingStyle) ? saved.speakingStyle : defaults.speakingStyle,
+            pace: saved.pace && SPEAKING_PACES.includes(saved.pace) ? saved.pace : defaults.pace,
+        };
+    } catch {
+        return defaults;
+    }
+};
+
+export const saveVoiceSettings = (settings: VoiceSettings): void => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.error("Error saving voice settings: ", e);
+    }
+};
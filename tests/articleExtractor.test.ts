@@ -0,0 +1,76 @@
+import { File as NodeFile } from 'node:buffer';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { articleToText, extractFromFile, extractFromHtml, fetchArticle } from '../services/articleExtractor';
+import { ArticleFetcher, setArticleFetcher } from '../services/articleFetcher';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name));
+
+/** Serves fixtures by URL, standing in for a local fixture server. */
+const serveFixtures = (routes: Record<string, { file: string; contentType: string }>): ArticleFetcher => async (url) => {
+    const route = routes[url];
+    if (!route) throw new Error(`Request for ${url} failed with status 404.`);
+    const body = fixture(route.file);
+    return { url, contentType: route.contentType, body: body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength) };
+};
+
+describe('extractFromHtml', () => {
+    it('keeps the article and drops navigation, ads and asides', async () => {
+        const article = await extractFromHtml(fixture('news-article.html').toString('utf-8'));
+
+        expect(article.title).toBe('River bridge reopens after two-year repair');
+        expect(article.byline).toContain('Dana Reyes');
+        expect(article.publishedAt).toBe('2026-10-18T07:30:00Z');
+        expect(article.text).toContain('The Old Mill bridge reopened to traffic on Saturday morning');
+        expect(article.text).toContain('Buses will return to their old route');
+        for (const boilerplate of ['World', 'mattress', 'Share on social media', 'Ten bridges', 'All rights reserved']) {
+            expect(article.text).not.toContain(boilerplate);
+        }
+        expect(articleToText(article)).toMatch(/^River bridge reopens after two-year repair\nBy Dana Reyes · /);
+    });
+
+    it('keeps articles on pages wrapped in a form, dropping only its controls', async () => {
+        const article = await extractFromHtml(fixture('webforms-article.html').toString('utf-8'));
+
+        expect(article.title).toBe('Council approves new library hours');
+        expect(article.text).toContain('The central library will open until nine in the evening');
+        expect(article.text).toContain('The branch libraries keep their current hours');
+        expect(article.text).not.toContain('Search this site');
+        expect(article.text).not.toContain('VIEWSTATE');
+    });
+});
+
+describe('extractFromFile', () => {
+    it('reads a .txt file, taking its first line as the title', async () => {
+        // jsdom's File has no `text()`; Node's matches the browser's.
+        const file = new NodeFile([fixture('plain-article.txt')], 'ferry.txt', { type: 'text/plain' });
+        const article = await extractFromFile(file as unknown as File);
+
+        expect(article).toMatchObject({ title: 'Harbour ferry adds an evening crossing', source: 'ferry.txt' });
+        expect(article.text).toContain('a last crossing at ten in the evening');
+    });
+});
+
+describe('fetchArticle', () => {
+    const routes = {
+        'https://news.example/bridge': { file: 'news-article.html', contentType: 'text/html; charset=utf-8' },
+        'https://news.example/ferry.txt': { file: 'plain-article.txt', contentType: 'text/plain' },
+    };
+
+    it('extracts pages and text served by the article fetcher', async () => {
+        setArticleFetcher(serveFixtures(routes));
+
+        const page = await fetchArticle('https://news.example/bridge');
+        expect(page).toMatchObject({ title: 'River bridge reopens after two-year repair', source: 'https://news.example/bridge' });
+        expect(page.text).toContain('The repair cost 14 million dollars');
+
+        const text = await fetchArticle('https://news.example/ferry.txt');
+        expect(text.title).toBe('Harbour ferry adds an evening crossing');
+    });
+
+    it('passes on fetch failures', async () => {
+        setArticleFetcher(serveFixtures(routes));
+        await expect(fetchArticle('https://news.example/missing')).rejects.toThrow('404');
+    });
+});
@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAudioEngine } from '../services/audioEngine';
+import { FakeAudioBuffer, FakeAudioContext, installFakeWebAudio } from './fakes/webAudio';
+
+const buffer = (seconds: number) => new FakeAudioBuffer(1, Math.round(seconds * 24000), 24000) as unknown as AudioBuffer;
+
+describe('createAudioEngine', () => {
+    beforeEach(() => {
+        installFakeWebAudio();
+    });
+
+    /** The engine's context and its gains: master first, then one per channel. */
+    const graph = async (engine: ReturnType<typeof createAudioEngine>) => {
+        await engine.getContext();
+        const [context] = FakeAudioContext.instances;
+        const [master, summary, preview, live] = context.gains;
+        return { context, master, summary, preview, live };
+    };
+
+    it('shares one context and routes every channel through the master gain', async () => {
+        const engine = createAudioEngine();
+        expect(await engine.getContext()).toBe(await engine.getContext());
+        const { context, master, summary, live } = await graph(engine);
+
+        expect(FakeAudioContext.instances).toHaveLength(1);
+        expect(context.sampleRate).toBe(24000);
+        expect(master.output).toBe(context.destination);
+        expect(summary.output).toBe(master);
+        expect(engine.getOutput('live')).toBe(live);
+    });
+
+    it('plays queued buffers back to back and reports when each starts', async () => {
+        const engine = createAudioEngine();
+        const { context, live } = await graph(engine);
+        const onIdle = vi.fn();
+        const queue = engine.createQueue('live', { onIdle });
+
+        expect(queue.enqueue(buffer(0.5))).toBe(0);
+        expect(queue.enqueue(buffer(0.25))).toBeCloseTo(0.5);
+        context.advance(0.1);
+        expect(queue.enqueue(buffer(0.5))).toBeCloseTo(0.65);
+        expect(context.sources.map(source => source.startTime)).toEqual([0, 0.5, 0.75]);
+        expect(context.sources.every(source => source.output === live)).toBe(true);
+
+        context.advance(1.1);
+        expect(queue.isPlaying()).toBe(true);
+        expect(onIdle).not.toHaveBeenCalled();
+        context.advance(0.06);
+        expect(queue.isPlaying()).toBe(false);
+        expect(onIdle).toHaveBeenCalledTimes(1);
+
+        // Audio that arrives after a pause starts now, not where the last reply ended.
+        context.advance(2);
+        expect(queue.enqueue(buffer(0.5))).toBe(0);
+        expect(context.sources[3].startTime).toBeCloseTo(3.26);
+    });
+
+    it('stops everything queued on flush and starts the next buffer straight away', async () => {
+        const engine = createAudioEngine();
+        const { context } = await graph(engine);
+        const onIdle = vi.fn();
+        const queue = engine.createQueue('live', { onIdle });
+        queue.enqueue(buffer(1));
+        queue.enqueue(buffer(1));
+        context.advance(0.4);
+
+        queue.flush();
+        expect(context.sources.every(source => source.isStopped)).toBe(true);
+        expect(onIdle).toHaveBeenCalledTimes(1);
+
+        expect(queue.enqueue(buffer(1))).toBe(0);
+        expect(context.sources[2].startTime).toBeCloseTo(0.4);
+        queue.flush();
+        queue.flush();
+        expect(onIdle).toHaveBeenCalledTimes(2);
+    });
+
+    it('ducks the other channels while a ducking queue plays', async () => {
+        const engine = createAudioEngine();
+        const { context, summary, preview, live } = await graph(engine);
+        const replies = engine.createQueue('live', { ducksOthers: true });
+
+        replies.enqueue(buffer(0.5));
+        replies.enqueue(buffer(0.5));
+        expect(summary.gain.value).toBeLessThan(1);
+        expect(preview.gain.value).toBeLessThan(1);
+        expect(live.gain.value).toBe(1);
+
+        context.advance(0.6);
+        expect(summary.gain.value).toBeLessThan(1);
+        context.advance(0.5);
+        expect(summary.gain.value).toBe(1);
+
+        replies.enqueue(buffer(0.5));
+        replies.flush();
+        expect(summary.gain.value).toBe(1);
+    });
+
+    it('applies the volume to the master gain, clamped to 0..1', async () => {
+        const engine = createAudioEngine();
+        engine.setVolume(0.4);
+        const { master } = await graph(engine);
+        expect(master.gain.value).toBe(0.4);
+        engine.setVolume(3);
+        expect(master.gain.value).toBe(1);
+    });
+
+    it('sends output to the chosen device, including a context created later', async () => {
+        const engine = createAudioEngine();
+        await engine.setOutputDevice('headphones');
+        const { context } = await graph(engine);
+        expect(context.sinkId).toBe('headphones');
+
+        await engine.setOutputDevice('');
+        expect(context.sinkId).toBe('');
+    });
+
+    it('refuses a device where the browser cannot route output', async () => {
+        // Browsers without `AudioContext.setSinkId`, such as Firefox and Safari.
+        vi.stubGlobal('AudioContext', class {});
+        const engine = createAudioEngine();
+        expect(engine.supportsOutputSelection()).toBe(false);
+        await expect(engine.setOutputDevice('headphones')).rejects.toMatchObject({ kind: 'unsupported-browser' });
+        await expect(engine.setOutputDevice('')).resolves.toBeUndefined();
+    });
+
+    it('starts a fresh context after being closed', async () => {
+        const engine = createAudioEngine();
+        const first = await engine.getContext();
+        await engine.close();
+        expect(first.state).toBe('closed');
+        expect(await engine.getContext()).not.toBe(first);
+    });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { concatBytes, decode, decodeAudioData, encode, encodeWav } from '../utils/audioUtils';
+import { FakeAudioContext, asAudioContext } from './fakes/webAudio';
+
+const pcmBytes = (samples: number[]) => new Uint8Array(new Int16Array(samples).buffer);
+
+describe('encode/decode', () => {
+    it('round-trips every byte value', () => {
+        const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+        expect(decode(encode(bytes))).toEqual(bytes);
+    });
+
+    it('round-trips empty input', () => {
+        expect(encode(new Uint8Array(0))).toBe('');
+        expect(decode('')).toEqual(new Uint8Array(0));
+    });
+
+    it.each([1, 2, 3, 0x8000 - 1, 0x8000, 0x8000 + 1, 3 * 0x8000 + 7])('round-trips %i bytes across block boundaries', (length) => {
+        const bytes = Uint8Array.from({ length }, (_, i) => (i * 31 + 7) & 0xff);
+        expect(decode(encode(bytes))).toEqual(bytes);
+    });
+
+    it('matches the standard base64 alphabet and padding', () => {
+        expect(encode(new TextEncoder().encode('any carnal pleas'))).toBe('YW55IGNhcm5hbCBwbGVhcw==');
+        expect(encode(new Uint8Array([0xfb, 0xff]))).toBe('+/8=');
+    });
+
+    it('encodes only the viewed part of a subarray', () => {
+        const bytes = Uint8Array.from([1, 2, 3, 4, 5, 6]);
+        expect(decode(encode(bytes.subarray(2, 5)))).toEqual(Uint8Array.from([3, 4, 5]));
+    });
+});
+
+describe('decodeAudioData', () => {
+    const context = asAudioContext(new FakeAudioContext());
+
+    it('scales 16-bit samples to [-1, 1)', async () => {
+        const buffer = await decodeAudioData(pcmBytes([0, 16384, -16384, 32767, -32768]), context, 24000, 1);
+        expect(buffer.length).toBe(5);
+        expect(buffer.sampleRate).toBe(24000);
+        expect(Array.from(buffer.getChannelData(0))).toEqual([0, 0.5, -0.5, 32767 / 32768, -1]);
+    });
+
+    it('survives a base64 round-trip', async () => {
+        const samples = [100, -200, 300, -400, 12345, -12345];
+        const buffer = await decodeAudioData(decode(encode(pcmBytes(samples))), context, 24000, 1);
+        expect(Array.from(buffer.getChannelData(0), value => Math.round(value * 32768))).toEqual(samples);
+    });
+
+    it('de-interleaves stereo frames into channels', async () => {
+        const buffer = await decodeAudioData(pcmBytes([1000, -1000, 2000, -2000, 3000, -3000]), context, 16000, 2);
+        expect(buffer.numberOfChannels).toBe(2);
+        expect(buffer.length).toBe(3);
+        expect(Array.from(buffer.getChannelData(0), value => value * 32768)).toEqual([1000, 2000, 3000]);
+        expect(Array.from(buffer.getChannelData(1), value => value * 32768)).toEqual([-1000, -2000, -3000]);
+    });
+
+    it('drops a trailing odd byte', async () => {
+        const bytes = concatBytes([pcmBytes([8192, -8192]), Uint8Array.from([0x7f])]);
+        const buffer = await decodeAudioData(bytes, context, 24000, 1);
+        expect(Array.from(buffer.getChannelData(0))).toEqual([0.25, -0.25]);
+    });
+
+    it('drops an incomplete stereo frame', async () => {
+        const buffer = await decodeAudioData(pcmBytes([1, 2, 3, 4, 5]), context, 24000, 2);
+        expect(buffer.length).toBe(2);
+        expect(Array.from(buffer.getChannelData(1), value => value * 32768)).toEqual([2, 4]);
+    });
+
+    it('decodes nothing from a single byte', async () => {
+        const buffer = await decodeAudioData(Uint8Array.from([0x01]), context, 24000, 1);
+        expect(buffer.length).toBe(0);
+    });
+
+    it('reads only the viewed bytes of a subarray', async () => {
+        const bytes = pcmBytes([111, 222, 333, 444]);
+        const buffer = await decodeAudioData(bytes.subarray(2, 6), context, 24000, 1);
+        expect(Array.from(buffer.getChannelData(0), value => value * 32768)).toEqual([222, 333]);
+    });
+
+    it('reads a subarray that starts on an odd byte', async () => {
+        const bytes = concatBytes([Uint8Array.from([0xaa]), pcmBytes([-5, 5])]);
+        const buffer = await decodeAudioData(bytes.subarray(1), context, 24000, 1);
+        expect(Array.from(buffer.getChannelData(0), value => value * 32768)).toEqual([-5, 5]);
+    });
+});
+
+describe('encodeWav', () => {
+    const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+        String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+    it('writes a canonical PCM header', () => {
+        const wav = encodeWav(pcmBytes([1, -1, 2, -2]), 24000, 2);
+        const view = new DataView(wav.buffer);
+        expect(ascii(wav, 0, 4)).toBe('RIFF');
+        expect(view.getUint32(4, true)).toBe(wav.byteLength - 8);
+        expect(ascii(wav, 8, 8)).toBe('WAVEfmt ');
+        expect(view.getUint16(22, true)).toBe(2);
+        expect(view.getUint32(24, true)).toBe(24000);
+        expect(view.getUint32(28, true)).toBe(24000 * 2 * 2);
+        expect(view.getUint16(32, true)).toBe(4);
+        expect(ascii(wav, 36, 4)).toBe('data');
+        expect(view.getUint32(40, true)).toBe(8);
+        expect(new Int16Array(wav.slice(44).buffer)).toEqual(new Int16Array([1, -1, 2, -2]));
+    });
+
+    it('drops an incomplete trailing frame from the data chunk', () => {
+        const wav = encodeWav(concatBytes([pcmBytes([1, 2, 3]), Uint8Array.from([9])]), 24000, 2);
+        expect(new DataView(wav.buffer).getUint32(40, true)).toBe(4);
+        expect(wav.byteLength).toBe(48);
+    });
+
+    it('appends cue points and word-aligned labels for markers', () => {
+        const wav = encodeWav(pcmBytes([0, 0, 0, 0]), 24000, 1, [{ frame: 1, label: 'AI' }, { frame: 3, label: 'You' }]);
+        const view = new DataView(wav.buffer);
+        const cue = 44 + 8;
+        expect(ascii(wav, cue, 4)).toBe('cue ');
+        expect(view.getUint32(cue + 8, true)).toBe(2);
+        expect(view.getUint32(cue + 12 + 20, true)).toBe(1);
+        expect(view.getUint32(cue + 36 + 20, true)).toBe(3);
+        const list = cue + 12 + 2 * 24;
+        expect(ascii(wav, list, 4)).toBe('LIST');
+        expect(ascii(wav, list + 8, 4)).toBe('adtl');
+        // "AI\0" is three bytes, so the chunk is padded to keep the next one word-aligned.
+        expect(ascii(wav, list + 12, 4)).toBe('labl');
+        expect(ascii(wav, list + 24, 2)).toBe('AI');
+        expect(ascii(wav, list + 12 + 8 + 8, 4)).toBe('labl');
+        expect(wav.byteLength % 2).toBe(0);
+    });
+});
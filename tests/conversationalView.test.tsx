@@ -0,0 +1,208 @@
+import React from 'react';
+import { act, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import ConversationalView from '../components/ConversationalView';
+import ReminderAlerts from '../components/ReminderAlerts';
+import { saveConversation } from '../services/conversationLibrary';
+import { DEFAULT_SUMMARY_OPTIONS } from '../services/prompts';
+import { setProvider } from '../services/providers';
+import { encode } from '../utils/audioUtils';
+import { createFakeLiveProvider } from './fakes/liveSession';
+import { FakeAudioContext, installFakeWebAudio } from './fakes/webAudio';
+
+const mic = vi.hoisted(() => ({ onChunk: null as ((pcm: Int16Array) => void) | null }));
+
+vi.mock('../services/micCapture', () => ({
+    startMicCapture: vi.fn(async ({ onChunk }: { onChunk: (pcm: Int16Array) => void }) => {
+        mic.onChunk = onChunk;
+        return { context: {}, stop: vi.fn() };
+    }),
+}));
+
+vi.mock('../services/conversationLibrary', async (importOriginal) => ({
+    ...await importOriginal<typeof import('../services/conversationLibrary')>(),
+    saveConversation: vi.fn(async () => {}),
+    listConversations: vi.fn(async () => []),
+}));
+
+/** Base64 of `seconds` of 24 kHz mono PCM at a constant level. */
+const modelAudio = (seconds: number) => encode(new Uint8Array(new Int16Array(Math.round(24000 * seconds)).fill(1000).buffer));
+
+const outputContext = () => FakeAudioContext.instances.find(context => context.sampleRate === 24000)!;
+
+const renderView = () => render(
+    <ConversationalView
+        voiceSettings={{ voice: 'Zephyr', speakingStyle: 'neutral', pace: 'normal' }}
+        articleText=""
+        summaryOptions={DEFAULT_SUMMARY_OPTIONS}
+    />,
+);
+
+describe('ConversationalView', () => {
+    let fake: ReturnType<typeof createFakeLiveProvider>;
+    let getUserMedia: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        installFakeWebAudio();
+        fake = createFakeLiveProvider();
+        setProvider(fake.provider);
+        mic.onChunk = null;
+        getUserMedia = vi.fn(async () => ({ getTracks: () => [{ stop: vi.fn() }] }));
+        Object.defineProperty(navigator, 'mediaDevices', { configurable: true, value: { getUserMedia } });
+    });
+
+    afterEach(() => {
+        delete (navigator as { mediaDevices?: unknown }).mediaDevices;
+    });
+
+    /** Starts a session and opens it, returning the fake server side. */
+    const startSession = async () => {
+        fireEvent.click(screen.getByRole('button', { name: 'Start conversation' }));
+        await waitFor(() => expect(fake.sessions).toHaveLength(1));
+        const session = fake.sessions[0];
+        act(() => session.open());
+        await screen.findByText('Listening... Speak now.');
+        return session;
+    };
+
+    const transcriptLines = () => within(screen.getByRole('log')).queryAllByRole('paragraph').map(line => line.textContent);
+
+    it('merges streamed transcription deltas into one entry per turn', async () => {
+        renderView();
+        const session = await startSession();
+
+        await act(() => session.emit({ inputTranscription: { text: 'What is', isFinal: false } }));
+        await act(() => session.emit({ inputTranscription: { text: ' the news?', isFinal: false } }));
+        await act(() => session.emit({ outputTranscription: { text: 'Here is', isFinal: false } }));
+        await act(() => session.emit({ outputTranscription: { text: ' the news.', isFinal: false } }));
+        await act(() => session.emit({ turnComplete: true }));
+        await act(() => session.emit({ inputTranscription: { text: 'Thanks', isFinal: false } }));
+
+        expect(transcriptLines()).toEqual(['What is the news?', 'Here is the news.', 'Thanks']);
+        expect(saveConversation).toHaveBeenCalledWith(expect.objectContaining({
+            transcripts: [
+                expect.objectContaining({ speaker: 'user', text: 'What is the news?' }),
+                expect.objectContaining({ speaker: 'model', text: 'Here is the news.' }),
+            ],
+        }));
+    });
+
+    it('forwards mic audio only once the session is open', async () => {
+        renderView();
+        fireEvent.click(screen.getByRole('button', { name: 'Start conversation' }));
+        await waitFor(() => expect(fake.sessions).toHaveLength(1));
+        const session = fake.sessions[0];
+
+        act(() => mic.onChunk!(new Int16Array(1600)));
+        expect(session.realtimeInputs).toHaveLength(0);
+
+        act(() => session.open());
+        act(() => mic.onChunk!(new Int16Array(1600).fill(500)));
+        expect(session.realtimeInputs).toEqual([
+            { media: { data: encode(new Uint8Array(new Int16Array(1600).fill(500).buffer)), mimeType: 'audio/pcm;rate=16000' } },
+        ]);
+    });
+
+    it('queues model audio back to back', async () => {
+        renderView();
+        const session = await startSession();
+
+        await act(() => session.emit({ audio: modelAudio(0.5) }));
+        await act(() => session.emit({ audio: modelAudio(0.25) }));
+
+        const context = outputContext();
+        expect(context.sources.map(source => source.startTime)).toEqual([0, 0.5]);
+        expect(screen.getByText('AI is speaking...')).toBeTruthy();
+
+        act(() => context.advance(0.75));
+        expect(screen.getByText('Listening...')).toBeTruthy();
+    });
+
+    it('stops queued audio on interruption and restarts the queue at the current time', async () => {
+        renderView();
+        const session = await startSession();
+        const context = () => outputContext();
+
+        await act(() => session.emit({ audio: modelAudio(1) }));
+        await act(() => session.emit({ audio: modelAudio(1) }));
+        act(() => context().advance(0.4));
+        expect(context().playingSources).toHaveLength(2);
+
+        await act(() => session.emit({ interrupted: true }));
+        expect(context().playingSources).toHaveLength(0);
+        expect(context().sources.every(source => source.isStopped)).toBe(true);
+
+        await act(() => session.emit({ audio: modelAudio(0.5) }));
+        expect(context().sources[2].startTime).toBeCloseTo(0.4);
+    });
+
+    it('does not play audio when text-only replies are on', async () => {
+        renderView();
+        const session = await startSession();
+
+        fireEvent.click(screen.getByRole('checkbox', { name: 'Text-only replies' }));
+        await act(() => session.emit({ audio: modelAudio(0.5), outputTranscription: { text: 'Quietly.', isFinal: true } }));
+
+        expect(outputContext().sources).toHaveLength(0);
+        expect(transcriptLines()).toEqual(['Quietly.']);
+    });
+
+    it('explains a blocked microphone', async () => {
+        getUserMedia.mockRejectedValue(new DOMException('Permission denied', 'NotAllowedError'));
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        renderView();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Start conversation' }));
+
+        expect(await screen.findByText(/Microphone access is blocked/)).toBeTruthy();
+        expect(fake.sessions).toHaveLength(0);
+        expect(screen.getByRole('button', { name: 'Start conversation' })).toBeTruthy();
+    });
+
+    it('gives up when a session closes before it opens', async () => {
+        renderView();
+        fireEvent.click(screen.getByRole('button', { name: 'Start conversation' }));
+        await waitFor(() => expect(fake.sessions).toHaveLength(1));
+
+        act(() => fake.sessions[0].drop());
+
+        expect(await screen.findByText('Error. Press microphone to retry.')).toBeTruthy();
+        expect(screen.getByText(/Could not reach the Gemini API/)).toBeTruthy();
+        expect(fake.sessions).toHaveLength(1);
+    });
+
+    it('keeps a timer set in the conversation after the view unmounts', async () => {
+        const { unmount } = renderView();
+        const session = await startSession();
+
+        await act(() => session.emit({ toolCalls: [{ id: 'timer', name: 'set_timer', args: { seconds: 1, label: 'Tea' } }] }));
+        await waitFor(() => expect(session.toolResponses).toHaveLength(1));
+        unmount();
+        render(<ReminderAlerts />);
+
+        expect(await screen.findByText('Timer finished: Tea', undefined, { timeout: 2000 })).toBeTruthy();
+    });
+
+    it('auto-starts with the grounding and voice of the latest render', async () => {
+        const onAutoStarted = vi.fn();
+        const view = (title: string, voice: string, autoStart: boolean) => (
+            <ConversationalView
+                voiceSettings={{ voice, speakingStyle: 'neutral', pace: 'normal' }}
+                articleText=""
+                summaryOptions={DEFAULT_SUMMARY_OPTIONS}
+                grounding={{ title, articleText: `${title}.` }}
+                autoStart={autoStart}
+                onAutoStarted={onAutoStarted}
+            />
+        );
+        const { rerender } = render(view('Bridge reopens', 'Zephyr', false));
+        rerender(view('Bridge reopens', 'Zephyr', true));
+        // Changed before the deferred start runs.
+        rerender(view('Rates held', 'Kore', true));
+
+        await waitFor(() => expect(fake.sessions).toHaveLength(1));
+        expect(onAutoStarted).toHaveBeenCalledTimes(1);
+        expect(fake.sessions[0].options.grounding?.title).toBe('Rates held');
+        expect(fake.sessions[0].options.voice?.voice).toBe('Kore');
+    });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { buildDigestScript } from '../services/digest';
+
+const DATE = new Date(2026, 9, 19, 8);
+
+describe('buildDigestScript', () => {
+    it('introduces each story with a transition and its headline', () => {
+        const sections = buildDigestScript([
+            { title: 'Bridge reopens', summary: 'Traffic is back.' },
+            { title: 'Rates held?', summary: 'The bank waited.' },
+        ], DATE);
+
+        expect(sections.map(section => section.title)).toEqual(['Introduction', 'Bridge reopens', 'Rates held?', 'Sign-off']);
+        expect(sections[0].text).toMatch(/^Here is your news briefing for .+, with 2 stories\.$/);
+        expect(sections[1].text).toBe('First up: Bridge reopens. Traffic is back.');
+        expect(sections[2].text).toBe('And finally: Rates held. The bank waited.');
+    });
+
+    it('writes the connecting text in the language of the summaries', () => {
+        const spanish = buildDigestScript([{ title: 'Reabre el puente', summary: 'Vuelve el tráfico.' }], DATE, 'es');
+
+        expect(spanish.map(section => section.text)).toEqual([
+            'Este es tu resumen de noticias del lunes, 19 de octubre, con una noticia.',
+            'Para empezar: Reabre el puente. Vuelve el tráfico.',
+            'Esto es todo por este resumen. Gracias por escuchar.',
+        ]);
+        expect(spanish[0].title).toBe('Introducción');
+
+        const japanese = buildDigestScript([
+            { title: '橋が再開', summary: '交通が戻った。' },
+            { title: '金利据え置き', summary: '銀行は様子見。' },
+        ], DATE, 'ja');
+        expect(japanese[1].text).toBe('まずは：橋が再開。 交通が戻った。');
+        expect(japanese.map(section => section.text).join('')).not.toMatch(/[A-Za-z]/);
+    });
+
+    it('falls back to English for languages without phrases', () => {
+        expect(buildDigestScript([], DATE, 'xx')[0].title).toBe('Introduction');
+    });
+});
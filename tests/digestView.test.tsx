@@ -0,0 +1,68 @@
+import React from 'react';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import DigestView from '../components/DigestView';
+import { DEFAULT_SUMMARY_OPTIONS } from '../services/prompts';
+import { setProvider } from '../services/providers';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { getDefaultVoiceSettings } from '../services/voiceSettings';
+import { installFakeWebAudio } from './fakes/webAudio';
+
+/** A promise the test settles, standing in for a slow API call. */
+const deferred = <T,>() => {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>(res => { resolve = res; });
+    return { promise, resolve };
+};
+
+const renderDigest = (stories: string[]) => {
+    const view = render(<DigestView summaryOptions={DEFAULT_SUMMARY_OPTIONS} voiceSettings={getDefaultVoiceSettings()} />);
+    for (const story of stories) {
+        fireEvent.change(screen.getByPlaceholderText(/then add it to the queue/), { target: { value: story } });
+        fireEvent.click(screen.getByRole('button', { name: 'Add to digest' }));
+    }
+    fireEvent.click(screen.getByRole('button', { name: /Build Audio Bulletin/ }));
+    return view;
+};
+
+describe('DigestView', () => {
+    beforeEach(() => {
+        installFakeWebAudio();
+    });
+
+    it('stops summarizing the remaining stories once it is closed', async () => {
+        const pending = deferred<string>();
+        const summarize = vi.fn(() => pending.promise);
+        const synthesizeSpeech = vi.fn(createMockProvider().synthesizeSpeech);
+        setProvider({ ...createMockProvider(), summarize, synthesizeSpeech });
+
+        const { unmount } = renderDigest(['First story about the bridge.', 'Second story about rates.', 'Third story about the harbour.']);
+        await waitFor(() => expect(summarize).toHaveBeenCalledTimes(1));
+        unmount();
+        await act(async () => pending.resolve('The bridge reopened.'));
+
+        expect(summarize).toHaveBeenCalledTimes(1);
+        expect(synthesizeSpeech).not.toHaveBeenCalled();
+    });
+
+    it('stops requesting speech for the rest of the bulletin once it is closed', async () => {
+        const requests: ReturnType<typeof deferred<string>>[] = [];
+        const synthesizeSpeech = vi.fn(() => {
+            const request = deferred<string>();
+            requests.push(request);
+            return request.promise;
+        });
+        const summary = Array.from({ length: 8 }, (_, i) => `Sentence number ${i + 1} of this long summary.`).join(' ');
+        setProvider({ ...createMockProvider(), summarize: async () => summary, synthesizeSpeech });
+
+        const { unmount } = renderDigest(['Only story about the bridge.']);
+        await waitFor(() => expect(synthesizeSpeech).toHaveBeenCalled());
+        const requested = synthesizeSpeech.mock.calls.length;
+        expect(requested).toBeLessThan(8);
+        unmount();
+        const tone = await createMockProvider().synthesizeSpeech('Tone.', { ...DEFAULT_SUMMARY_OPTIONS, voice: getDefaultVoiceSettings() });
+        await act(async () => requests.forEach(request => request.resolve(tone)));
+
+        expect(synthesizeSpeech).toHaveBeenCalledTimes(requested);
+    });
+});
@@ -0,0 +1,54 @@
+import { createMockProvider } from '../../services/providers/mockProvider';
+import { AIProvider, LiveConnectOptions, LiveEvent, LiveSessionHandle, LiveToolResult, RealtimeInput } from '../../services/providers/types';
+
+/** One `connectLive` call, driven by the test instead of a server. */
+export type FakeLiveSession = {
+    options: LiveConnectOptions;
+    realtimeInputs: RealtimeInput[];
+    texts: string[];
+    toolResponses: LiveToolResult[][];
+    isClosed: boolean;
+    open: () => void;
+    /** Delivers a server event and waits for the handler, including its audio decoding. */
+    emit: (event: LiveEvent) => Promise<void>;
+    /** Simulates the server dropping the connection. */
+    drop: (reason?: string) => void;
+};
+
+/**
+ * The mock provider for summaries and speech, with live sessions that only open and speak when
+ * the test says so. Every session is kept in `sessions`, so reconnections can be inspected.
+ */
+export const createFakeLiveProvider = () => {
+    const sessions: FakeLiveSession[] = [];
+
+    const connectLive = async (options: LiveConnectOptions): Promise<LiveSessionHandle> => {
+        const session: FakeLiveSession = {
+            options,
+            realtimeInputs: [],
+            texts: [],
+            toolResponses: [],
+            isClosed: false,
+            open: () => options.callbacks.onopen(),
+            emit: async (event) => {
+                await options.callbacks.onmessage(event);
+            },
+            drop: (reason) => {
+                session.isClosed = true;
+                options.callbacks.onclose(reason);
+            },
+        };
+        sessions.push(session);
+        return {
+            sendRealtimeInput: (input) => session.realtimeInputs.push(input),
+            sendText: (text) => session.texts.push(text),
+            sendToolResponse: (results) => session.toolResponses.push(results),
+            close: () => {
+                session.isClosed = true;
+            },
+        };
+    };
+
+    const provider: AIProvider = { ...createMockProvider(), connectLive };
+    return { provider, sessions };
+};
@@ -0,0 +1,168 @@
+import { vi } from 'vitest';
+
+/** An in-memory AudioBuffer with real channel data, so decoded samples can be checked. */
+export class FakeAudioBuffer {
+    readonly duration: number;
+    private readonly channels: Float32Array[];
+
+    constructor(readonly numberOfChannels: number, readonly length: number, readonly sampleRate: number) {
+        if (!Number.isInteger(length) || length < 0) {
+            // Matches the browser, which rejects fractional or negative frame counts.
+            throw new RangeError(`Invalid AudioBuffer length: ${length}`);
+        }
+        this.duration = length / sampleRate;
+        this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+    }
+
+    getChannelData(channel: number): Float32Array {
+        return this.channels[channel];
+    }
+}
+
+/**
+ * A buffer source that records how it was scheduled. It never plays on its own; `ended` fires
+ * when the owning context's clock is advanced past its end, or when it is stopped.
+ */
+export class FakeAudioBufferSourceNode extends EventTarget {
+    buffer: FakeAudioBuffer | null = null;
+    readonly playbackRate = { value: 1 };
+    /** Context time it was scheduled to start at, once started. */
+    startTime: number | null = null;
+    offset = 0;
+    isStopped = false;
+    hasEnded = false;
+
+    /** The node it was connected to. */
+    output: unknown = null;
+
+    connect(destination: unknown) {
+        this.output = destination;
+    }
+
+    disconnect() {}
+
+    start(when = 0, offset = 0) {
+        this.startTime = when;
+        this.offset = offset;
+    }
+
+    stop() {
+        if (this.isStopped) return;
+        this.isStopped = true;
+        if (this.startTime !== null) this.end();
+    }
+
+    /** Context time at which the buffer runs out. */
+    get endTime(): number {
+        return (this.startTime ?? 0) + ((this.buffer?.duration ?? 0) - this.offset) / this.playbackRate.value;
+    }
+
+    end() {
+        if (this.hasEnded) return;
+        this.hasEnded = true;
+        this.dispatchEvent(new Event('ended'));
+    }
+}
+
+/** A gain node whose automation lands immediately, so tests can read the level it is heading to. */
+export class FakeGainNode {
+    readonly gain = {
+        value: 1,
+        setTargetAtTime(target: number) {
+            this.value = target;
+        },
+    };
+    /** The node it was last connected to. */
+    output: unknown = null;
+
+    connect(destination: unknown) {
+        this.output = destination;
+    }
+
+    disconnect() {
+        this.output = null;
+    }
+}
+
+/** An AudioContext whose clock only moves when a test calls `advance`. */
+export class FakeAudioContext {
+    static instances: FakeAudioContext[] = [];
+
+    readonly sampleRate: number;
+    readonly destination = {};
+    currentTime = 0;
+    state: AudioContextState = 'running';
+    readonly sources: FakeAudioBufferSourceNode[] = [];
+    readonly gains: FakeGainNode[] = [];
+    /** Set through `setSinkId`; empty for the default device. */
+    sinkId = '';
+
+    constructor(options: { sampleRate?: number } = {}) {
+        this.sampleRate = options.sampleRate ?? 48000;
+        FakeAudioContext.instances.push(this);
+    }
+
+    createBuffer(numberOfChannels: number, length: number, sampleRate: number) {
+        return new FakeAudioBuffer(numberOfChannels, length, sampleRate);
+    }
+
+    createBufferSource() {
+        const source = new FakeAudioBufferSourceNode();
+        this.sources.push(source);
+        return source;
+    }
+
+    createGain() {
+        const gain = new FakeGainNode();
+        this.gains.push(gain);
+        return gain;
+    }
+
+    async setSinkId(sinkId: string) {
+        this.sinkId = sinkId;
+    }
+
+    async resume() {
+        this.state = 'running';
+    }
+
+    async suspend() {
+        this.state = 'suspended';
+    }
+
+    async close() {
+        this.state = 'closed';
+    }
+
+    /** Sources that were started and have neither ended nor been stopped. */
+    get playingSources(): FakeAudioBufferSourceNode[] {
+        return this.sources.filter(source => source.startTime !== null && !source.hasEnded);
+    }
+
+    /**
+     * Moves the clock forward, stopping at each source's end time to fire its `ended` event as a
+     * browser would, so handlers see the time the audio actually ran out.
+     */
+    advance(seconds: number) {
+        const target = this.currentTime + seconds;
+        for (;;) {
+            const [next] = this.playingSources
+                .filter(source => source.endTime <= target + 1e-9)
+                .sort((a, b) => a.endTime - b.endTime);
+            if (!next) break;
+            this.currentTime = Math.max(this.currentTime, next.endTime);
+            next.end();
+        }
+        this.currentTime = target;
+    }
+}
+
+/** Replaces `AudioContext` for the current test; the setup file restores the real globals. */
+export const installFakeWebAudio = () => {
+    FakeAudioContext.instances = [];
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+    vi.stubGlobal('webkitAudioContext', undefined);
+};
+
+/** Casts the fake to the DOM type for code under test. */
+export const asAudioContext = (context: FakeAudioContext) => context as unknown as AudioContext;
@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getGeminiProxyUrl, setStoredApiKey } from '../services/config';
+
+const genai = vi.hoisted(() => ({ instances: [] as { options: { apiKey: string; httpOptions?: { baseUrl?: string } } }[] }));
+
+vi.mock('@google/genai', async (importOriginal) => ({
+    ...await importOriginal<typeof import('@google/genai')>(),
+    GoogleGenAI: vi.fn(function (this: object, options: { apiKey: string }) {
+        genai.instances.push({ options });
+        return { options, models: { list: vi.fn(async () => ({})) } };
+    }),
+}));
+
+vi.mock('../services/config', async (importOriginal) => ({
+    ...await importOriginal<typeof import('../services/config')>(),
+    getGeminiProxyUrl: vi.fn(() => undefined),
+}));
+
+// The client is module state, so each test starts from a fresh copy of the module. That also
+// reloads the error classes, so errors are matched by `kind` rather than `instanceof`.
+const loadClient = () => import('../services/providers/geminiClient');
+
+describe('getGeminiClient', () => {
+    beforeEach(() => {
+        vi.resetModules();
+        genai.instances = [];
+        vi.mocked(getGeminiProxyUrl).mockReturnValue(undefined);
+    });
+
+    it('asks for a key when none is set', async () => {
+        const { getGeminiClient } = await loadClient();
+        await expect(getGeminiClient()).rejects.toMatchObject({ kind: 'auth' });
+        expect(genai.instances).toHaveLength(0);
+    });
+
+    it('shares one client per key and rebuilds it when the key changes', async () => {
+        const { getGeminiClient } = await loadClient();
+        setStoredApiKey('first-key');
+        const first = await getGeminiClient();
+        expect(await getGeminiClient()).toBe(first);
+
+        setStoredApiKey('second-key');
+        const second = await getGeminiClient();
+        expect(second).not.toBe(first);
+        expect(genai.instances.map(instance => instance.options.apiKey)).toEqual(['first-key', 'second-key']);
+    });
+
+    it('uses a proxy token instead of a key, renewing it before it expires', async () => {
+        vi.mocked(getGeminiProxyUrl).mockReturnValue('http://localhost:8788');
+        let now = 1_000_000;
+        vi.spyOn(Date, 'now').mockImplementation(() => now);
+        const fetchMock = vi.fn(async (url: URL | string) => {
+            expect(String(url)).toBe('http://localhost:8788/token');
+            return new Response(JSON.stringify({ token: `token-${fetchMock.mock.calls.length}`, expiresAt: now + 10 * 60 * 1000 }));
+        });
+        vi.stubGlobal('fetch', fetchMock);
+        const { getGeminiClient } = await loadClient();
+
+        // Concurrent first calls share one token request.
+        const [a, b] = await Promise.all([getGeminiClient(), getGeminiClient()]);
+        expect(a).toBe(b);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(genai.instances[0].options).toEqual({ apiKey: 'token-1', httpOptions: { baseUrl: 'http://localhost:8788' } });
+
+        now += 8 * 60 * 1000;
+        expect(await getGeminiClient()).toBe(a);
+        now += 60 * 1000 + 1;
+        expect(await getGeminiClient()).not.toBe(a);
+        expect(genai.instances[1].options.apiKey).toBe('token-2');
+    });
+
+    it('reports a proxy that refuses to issue a token', async () => {
+        vi.mocked(getGeminiProxyUrl).mockReturnValue('http://localhost:8788/');
+        vi.stubGlobal('fetch', vi.fn(async () => new Response('Origin not allowed', { status: 403 })));
+        const { getGeminiClient } = await loadClient();
+        await expect(getGeminiClient()).rejects.toMatchObject({ kind: 'auth' });
+    });
+});
+
+describe('validateApiKey', () => {
+    it('rejects a blank key without calling the API', async () => {
+        const { validateApiKey } = await loadClient();
+        await expect(validateApiKey('   ')).rejects.toMatchObject({ kind: 'auth' });
+        expect(genai.instances).toHaveLength(0);
+    });
+});
@@ -0,0 +1,164 @@
+// @vitest-environment node
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createGeminiProxy, createTokenIssuer } from '../server/geminiProxy.mjs';
+
+const API_KEY = 'real-key';
+const ORIGIN = 'http://localhost:3000';
+
+const listen = (server: http.Server) =>
+    new Promise<string>(resolve => server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`)));
+
+const close = (server: http.Server) => new Promise<void>(resolve => {
+    server.closeAllConnections();
+    server.close(() => resolve());
+});
+
+describe('createTokenIssuer', () => {
+    it('accepts its own tokens until they expire', () => {
+        const tokens = createTokenIssuer(1000);
+        const { token, expiresAt } = tokens.issue(5000);
+        expect(expiresAt).toBe(6000);
+        expect(tokens.verify(token, 5999)).toBe(true);
+        expect(tokens.verify(token, 6000)).toBe(false);
+    });
+
+    it('rejects tampered tokens and ones from another secret', () => {
+        const tokens = createTokenIssuer(1000);
+        const { token } = tokens.issue(0);
+        const [, , signature] = token.split('.');
+        expect(tokens.verify(`proxy.999999.${signature}`, 0)).toBe(false);
+        expect(createTokenIssuer(1000).verify(token, 0)).toBe(false);
+        expect(tokens.verify('AIzaSomething', 0)).toBe(false);
+        expect(tokens.verify(undefined, 0)).toBe(false);
+    });
+});
+
+describe('createGeminiProxy', () => {
+    let upstream: http.Server;
+    let proxy: http.Server;
+    let proxyUrl: string;
+    // What the fake Google received.
+    let received: { url?: string; headers?: http.IncomingHttpHeaders; body?: string };
+
+    beforeEach(async () => {
+        received = {};
+        upstream = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => { body += chunk; });
+            req.on('end', () => {
+                received = { url: req.url, headers: req.headers, body };
+                res.writeHead(200, { 'content-type': 'application/json' });
+                res.end('{"ok":true}');
+            });
+        });
+        upstream.on('upgrade', (req, socket) => {
+            received = { url: req.url, headers: req.headers };
+            socket.write('HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n\r\n');
+            // Echoes frames back, standing in for the live API.
+            socket.pipe(socket);
+        });
+        const upstreamUrl = await listen(upstream);
+        proxy = createGeminiProxy({ apiKey: API_KEY, upstream: upstreamUrl, allowedOrigins: [ORIGIN] });
+        proxyUrl = await listen(proxy);
+    });
+
+    afterEach(async () => {
+        await close(proxy);
+        await close(upstream);
+    });
+
+    const getToken = async () => {
+        const response = await fetch(`${proxyUrl}/token`, { method: 'POST', headers: { origin: ORIGIN } });
+        return (await response.json() as { token: string }).token;
+    };
+
+    it('issues tokens to allowed origins only', async () => {
+        const allowed = await fetch(`${proxyUrl}/token`, { method: 'POST', headers: { origin: ORIGIN } });
+        expect(allowed.status).toBe(200);
+        expect(allowed.headers.get('access-control-allow-origin')).toBe(ORIGIN);
+
+        const refused = await fetch(`${proxyUrl}/token`, { method: 'POST', headers: { origin: 'https://elsewhere.example' } });
+        expect(refused.status).toBe(403);
+    });
+
+    it('issues tokens without an Origin only with the shared secret', async () => {
+        expect((await fetch(`${proxyUrl}/token`, { method: 'POST' })).status).toBe(403);
+
+        const withSecret = createGeminiProxy({ apiKey: API_KEY, allowedOrigins: [ORIGIN], sharedSecret: 'letmein' });
+        const withSecretUrl = await listen(withSecret);
+        try {
+            expect((await fetch(`${withSecretUrl}/token`, { method: 'POST' })).status).toBe(403);
+            expect((await fetch(`${withSecretUrl}/token`, { method: 'POST', headers: { 'x-proxy-secret': 'guess' } })).status).toBe(403);
+            const allowed = await fetch(`${withSecretUrl}/token`, { method: 'POST', headers: { 'x-proxy-secret': 'letmein' } });
+            expect(allowed.status).toBe(200);
+            expect(await allowed.json()).toMatchObject({ token: expect.stringMatching(/^proxy\./) });
+        } finally {
+            await close(withSecret);
+        }
+    });
+
+    it('forwards REST calls with the real key in place of the token', async () => {
+        const token = await getToken();
+        const response = await fetch(`${proxyUrl}//v1beta/models/gemini-2.5-flash:generateContent`, {
+            method: 'POST',
+            headers: { origin: ORIGIN, 'x-goog-api-key': token, 'content-type': 'application/json' },
+            body: '{"contents":[]}',
+        });
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ ok: true });
+        expect(response.headers.get('access-control-allow-origin')).toBe(ORIGIN);
+        expect(received.url).toBe('/v1beta/models/gemini-2.5-flash:generateContent');
+        expect(received.headers?.['x-goog-api-key']).toBe(API_KEY);
+        expect(received.headers?.origin).toBeUndefined();
+        expect(received.body).toBe('{"contents":[]}');
+    });
+
+    it('refuses REST calls without a valid token', async () => {
+        const response = await fetch(`${proxyUrl}/v1beta/models`, { headers: { origin: ORIGIN, 'x-goog-api-key': API_KEY } });
+        expect(response.status).toBe(401);
+        expect(await response.json()).toMatchObject({ error: { status: 'UNAUTHENTICATED' } });
+        expect(received.url).toBeUndefined();
+    });
+
+    it('answers CORS preflights with the requested headers', async () => {
+        const response = await fetch(`${proxyUrl}/v1beta/models`, {
+            method: 'OPTIONS',
+            headers: { origin: ORIGIN, 'access-control-request-method': 'POST', 'access-control-request-headers': 'x-goog-api-key,content-type' },
+        });
+        expect(response.status).toBe(204);
+        expect(response.headers.get('access-control-allow-headers')).toBe('x-goog-api-key,content-type');
+    });
+
+    /** Opens a raw upgrade request, resolving with the status and, once upgraded, the socket. */
+    const upgrade = (path: string) => new Promise<{ status: number; socket?: import('node:net').Socket }>((resolve, reject) => {
+        const req = http.request(`${proxyUrl}${path}`, {
+            headers: { origin: ORIGIN, connection: 'Upgrade', upgrade: 'websocket', 'sec-websocket-version': '13', 'sec-websocket-key': 'dGhlIHNhbXBsZSBub25jZQ==' },
+        });
+        req.on('upgrade', (res, socket) => resolve({ status: res.statusCode ?? 0, socket }));
+        req.on('response', res => resolve({ status: res.statusCode ?? 0 }));
+        req.on('error', reject);
+        req.end();
+    });
+
+    const LIVE_PATH = '//ws/google.ai.generativelanguage.v1beta.GenerativeService.BidiGenerateContent';
+
+    it('tunnels live WebSockets with the real key', async () => {
+        const token = await getToken();
+        const { status, socket } = await upgrade(`${LIVE_PATH}?key=${encodeURIComponent(token)}`);
+        expect(status).toBe(101);
+        expect(received.url).toBe(`/ws/google.ai.generativelanguage.v1beta.GenerativeService.BidiGenerateContent?key=${API_KEY}`);
+
+        const echoed = new Promise<string>(resolve => socket!.once('data', data => resolve(data.toString())));
+        socket!.write('frame');
+        expect(await echoed).toBe('frame');
+        socket!.destroy();
+    });
+
+    it('refuses live WebSockets without a valid token', async () => {
+        expect((await upgrade(`${LIVE_PATH}?key=${API_KEY}`)).status).toBe(401);
+        expect(received.url).toBeUndefined();
+    });
+});
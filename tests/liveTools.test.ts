@@ -0,0 +1,180 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    DEFAULT_LIVE_TOOLS,
+    ToolContext,
+    createToolRegistry,
+    defineTool,
+    validateToolArgs,
+} from '../services/liveTools';
+import { setArticleFetcher } from '../services/articleFetcher';
+import { DEFAULT_SUMMARY_OPTIONS } from '../services/prompts';
+import { setProvider } from '../services/providers';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { ToolParameters } from '../services/providers/types';
+import { SummaryEntry, listSummaries } from '../services/summaryLibrary';
+
+// The library lives in IndexedDB, which jsdom lacks; searching itself stays real.
+vi.mock('../services/summaryLibrary', async (importOriginal) => ({
+    ...await importOriginal<typeof import('../services/summaryLibrary')>(),
+    listSummaries: vi.fn(),
+}));
+
+const entry = (id: string, title: string, summary: string): SummaryEntry => ({
+    id,
+    title,
+    articleText: `Article about ${title}.`,
+    summary,
+    audioSegments: [],
+    sampleRate: 24000,
+    voice: 'Kore',
+    summaryModel: 'model',
+    speechModel: 'tts',
+    createdAt: Date.UTC(2026, 9, 19),
+});
+
+/** A context with nothing behind it but what each test sets. */
+const stubContext = (overrides: Partial<ToolContext> = {}): ToolContext => ({
+    getArticleText: () => '',
+    summaryOptions: DEFAULT_SUMMARY_OPTIONS,
+    scheduleTimer: vi.fn(),
+    ...overrides,
+});
+
+const run = (name: string, args: Record<string, unknown>, context = stubContext()) =>
+    createToolRegistry(DEFAULT_LIVE_TOOLS, context).execute({ id: 'call-1', name, args });
+
+describe('validateToolArgs', () => {
+    const parameters: ToolParameters = {
+        type: 'object',
+        properties: {
+            query: { type: 'string', description: 'Words to find.' },
+            limit: { type: 'integer', description: 'Most results.' },
+            minutes: { type: 'number', description: 'Minutes from now.' },
+            style: { type: 'string', description: 'Summary style.', enum: ['brief', 'detailed'] },
+        },
+        required: ['query'],
+    };
+
+    it('accepts matching arguments and ignores ones it does not declare', () => {
+        expect(validateToolArgs(parameters, { query: 'rates', limit: 3, minutes: 1.5, style: 'brief', extra: true })).toBeNull();
+    });
+
+    it('reports missing, mistyped and out-of-range arguments', () => {
+        expect(validateToolArgs(parameters, {})).toBe('Missing required argument "query".');
+        expect(validateToolArgs(parameters, { query: 'rates', limit: 2.5 })).toBe('Argument "limit" must be a integer.');
+        expect(validateToolArgs(parameters, { query: 'rates', minutes: Number.NaN })).toBe('Argument "minutes" must be a number.');
+        expect(validateToolArgs(parameters, { query: 7 })).toBe('Argument "query" must be a string.');
+        expect(validateToolArgs(parameters, { query: 'rates', style: 'long' })).toBe('Argument "style" must be one of brief, detailed.');
+    });
+});
+
+describe('createToolRegistry', () => {
+    it('declares each tool without its handler', () => {
+        const { declarations } = createToolRegistry(DEFAULT_LIVE_TOOLS, stubContext());
+        expect(declarations.map(declaration => declaration.name)).toEqual(['summarize_article', 'search_summaries', 'get_current_time', 'set_timer']);
+        expect(declarations.every(declaration => !('run' in declaration))).toBe(true);
+    });
+
+    it('answers unknown tools, bad arguments and failing handlers with an error', async () => {
+        const failing = defineTool({
+            name: 'fail',
+            description: 'Always fails.',
+            parameters: { type: 'object', properties: {} },
+            run: () => { throw new Error('Out of order.'); },
+        });
+        const registry = createToolRegistry([failing], stubContext());
+
+        expect(await registry.execute({ id: 'a', name: 'launch_rocket', args: {} }))
+            .toEqual({ id: 'a', name: 'launch_rocket', response: { error: 'Unknown tool "launch_rocket".' } });
+        expect(await registry.execute({ id: 'b', name: 'fail', args: {} }))
+            .toEqual({ id: 'b', name: 'fail', response: { error: 'Out of order.' } });
+        expect((await run('search_summaries', {})).response).toEqual({ error: 'Missing required argument "query".' });
+    });
+});
+
+describe('summarize_article', () => {
+    it('summarizes the open article in the requested style', async () => {
+        const summarize = vi.fn(async () => 'A short summary.');
+        setProvider({ ...createMockProvider(), summarize });
+
+        const result = await run('summarize_article', { style: 'bullets' }, stubContext({ getArticleText: () => '  The bridge reopened.  ' }));
+
+        expect(result.response).toEqual({ summary: 'A short summary.' });
+        expect(summarize).toHaveBeenCalledWith('The bridge reopened.', { ...DEFAULT_SUMMARY_OPTIONS, style: 'bullets' }, expect.any(Function));
+    });
+
+    it('imports a pasted URL before summarizing it', async () => {
+        const summarize = vi.fn(async () => 'A short summary.');
+        setProvider({ ...createMockProvider(), summarize });
+        setArticleFetcher(async (url) => ({
+            url,
+            contentType: 'text/plain',
+            body: new TextEncoder().encode('Bridge reopens\nThe bridge reopened on Saturday.').buffer,
+        }));
+
+        const result = await run('summarize_article', {}, stubContext({ getArticleText: () => 'https://news.example/bridge' }));
+
+        expect(result.response).toEqual({ summary: 'A short summary.' });
+        expect(summarize).toHaveBeenCalledWith('Bridge reopens\n\nThe bridge reopened on Saturday.', DEFAULT_SUMMARY_OPTIONS, expect.any(Function));
+    });
+
+    it('reports when no article is open', async () => {
+        expect((await run('summarize_article', {})).response).toEqual({ error: 'There is no article in the Summarizer tab.' });
+    });
+});
+
+describe('search_summaries', () => {
+    beforeEach(() => {
+        vi.mocked(listSummaries).mockResolvedValue([
+            entry('1', 'Bridge reopens', 'The Old Mill bridge reopened on Saturday.'),
+            entry('2', 'Rates held', 'The central bank held rates.'),
+            entry('3', 'Bridge tolls', 'Tolls on the new bridge rise in January.'),
+        ]);
+    });
+
+    it('returns matching summaries up to the limit', async () => {
+        const { response } = await run('search_summaries', { query: 'bridge', limit: 1 });
+        expect(response).toMatchObject({ count: 2, results: [{ title: 'Bridge reopens', summary: 'The Old Mill bridge reopened on Saturday.' }] });
+    });
+
+    it('returns no results when nothing matches', async () => {
+        expect((await run('search_summaries', { query: 'election' })).response).toEqual({ count: 0, results: [] });
+    });
+});
+
+describe('get_current_time', () => {
+    it('returns the current time', async () => {
+        vi.useFakeTimers({ now: Date.UTC(2026, 9, 19, 7, 30) });
+        try {
+            expect((await run('get_current_time', {})).response).toMatchObject({ iso: '2026-10-19T07:30:00.000Z', timeZone: expect.any(String) });
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+});
+
+describe('set_timer', () => {
+    it('schedules a timer from minutes and seconds', async () => {
+        const scheduleTimer = vi.fn();
+        const { response } = await run('set_timer', { minutes: 1, seconds: 30, label: ' Tea ' }, stubContext({ scheduleTimer }));
+
+        expect(scheduleTimer).toHaveBeenCalledWith('Tea', 90_000);
+        expect(response).toMatchObject({ label: 'Tea', durationSeconds: 90 });
+    });
+
+    it('names unlabelled timers', async () => {
+        const scheduleTimer = vi.fn();
+        await run('set_timer', { seconds: 5 }, stubContext({ scheduleTimer }));
+        expect(scheduleTimer).toHaveBeenCalledWith('Timer', 5000);
+    });
+
+    it('refuses timers shorter than a second or longer than a day', async () => {
+        const scheduleTimer = vi.fn();
+        const context = stubContext({ scheduleTimer });
+        for (const args of [{}, { seconds: 0.4 }, { minutes: -1 }, { minutes: 24 * 60, seconds: 1 }]) {
+            expect((await run('set_timer', args, context)).response).toEqual({ error: 'The timer must be between one second and 24 hours.' });
+        }
+        expect((await run('set_timer', { minutes: 24 * 60 }, context)).response).toMatchObject({ durationSeconds: 86_400 });
+        expect(scheduleTimer).toHaveBeenCalledTimes(1);
+    });
+});
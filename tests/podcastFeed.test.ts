@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import {
+    DEFAULT_PODCAST_SETTINGS,
+    PodcastEpisode,
+    buildPodcastBundle,
+    buildPodcastFeed,
+    formatItunesDuration,
+    normalizeBaseUrl,
+} from '../services/podcastFeed';
+import { SummaryEntry } from '../services/summaryLibrary';
+import { crc32 } from '../utils/zip';
+
+const ITUNES = 'http://www.itunes.com/dtds/podcast-1.0.dtd';
+
+const episode = (overrides: Partial<PodcastEpisode> = {}): PodcastEpisode => ({
+    guid: 'episode-1',
+    title: 'Bridge opens',
+    showNotes: 'The city opened a new bridge.',
+    publishedAt: new Date(Date.UTC(2026, 9, 19, 7, 30)),
+    fileName: 'episodes/bridge-opens.mp3',
+    byteLength: 12345,
+    durationSeconds: 75.4,
+    ...overrides,
+});
+
+const parse = (xml: string) => {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+    return doc;
+};
+
+/** Lists a stored ZIP's entries from its central directory, checking each against its CRC. */
+const readZip = (zip: Uint8Array): Map<string, Uint8Array> => {
+    const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+    const end = zip.byteLength - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    const files = new Map<string, Uint8Array>();
+    let offset = view.getUint32(end + 16, true);
+    for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+        expect(view.getUint32(offset, true)).toBe(0x02014b50);
+        const size = view.getUint32(offset + 24, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const name = new TextDecoder().decode(zip.subarray(offset + 46, offset + 46 + nameLength));
+        const local = view.getUint32(offset + 42, true);
+        expect(view.getUint32(local, true)).toBe(0x04034b50);
+        const dataStart = local + 30 + view.getUint16(local + 26, true);
+        const data = zip.subarray(dataStart, dataStart + size);
+        expect(crc32(data)).toBe(view.getUint32(offset + 16, true));
+        files.set(name, data);
+        offset += 46 + nameLength;
+    }
+    return files;
+};
+
+describe('buildPodcastFeed', () => {
+    it('writes a well-formed RSS 2.0 feed with iTunes tags', () => {
+        const doc = parse(buildPodcastFeed(DEFAULT_PODCAST_SETTINGS, [episode()], 'cover.png'));
+        expect(doc.documentElement.getAttribute('version')).toBe('2.0');
+        const channel = doc.querySelector('channel')!;
+        expect(channel.querySelector(':scope > title')!.textContent).toBe('News Briefs');
+        expect(channel.querySelector(':scope > link')!.textContent).toBe('http://localhost:8080/');
+        expect(channel.getElementsByTagNameNS(ITUNES, 'image')[0].getAttribute('href')).toBe('http://localhost:8080/cover.png');
+        expect(channel.getElementsByTagNameNS(ITUNES, 'category')[0].getAttribute('text')).toBe('News');
+
+        const item = doc.querySelector('item')!;
+        const enclosure = item.querySelector('enclosure')!;
+        expect(enclosure.getAttribute('url')).toBe('http://localhost:8080/episodes/bridge-opens.mp3');
+        expect(enclosure.getAttribute('length')).toBe('12345');
+        expect(enclosure.getAttribute('type')).toBe('audio/mpeg');
+        expect(item.querySelector('guid')!.getAttribute('isPermaLink')).toBe('false');
+        expect(item.querySelector('pubDate')!.textContent).toBe('Mon, 19 Oct 2026 07:30:00 GMT');
+        expect(item.getElementsByTagNameNS(ITUNES, 'duration')[0].textContent).toBe('00:01:15');
+        expect(item.querySelector('description')!.textContent).toBe('The city opened a new bridge.');
+    });
+
+    it('escapes markup in titles and show notes, and lists the newest episode first', () => {
+        const doc = parse(buildPodcastFeed({ ...DEFAULT_PODCAST_SETTINGS, title: 'Q&A <daily>' }, [
+            episode({ guid: 'old', title: 'Rates & "jobs"', publishedAt: new Date(1000) }),
+            episode({ guid: 'new', showNotes: 'Up <5%> today', publishedAt: new Date(2000) }),
+        ]));
+        expect(doc.querySelector('channel > title')!.textContent).toBe('Q&A <daily>');
+        expect([...doc.querySelectorAll('item > guid')].map(guid => guid.textContent)).toEqual(['new', 'old']);
+        expect(doc.querySelectorAll('item > title')[1].textContent).toBe('Rates & "jobs"');
+        expect(doc.querySelector('item > description')!.textContent).toBe('Up <5%> today');
+    });
+
+    it('refuses a relative base URL', () => {
+        expect(() => buildPodcastFeed({ ...DEFAULT_PODCAST_SETTINGS, baseUrl: 'podcast/' }, [])).toThrow();
+    });
+});
+
+describe('normalizeBaseUrl', () => {
+    it('adds a trailing slash and rejects non-http addresses', () => {
+        expect(normalizeBaseUrl(' https://example.com/briefs ')).toBe('https://example.com/briefs/');
+        expect(normalizeBaseUrl('http://localhost:8080')).toBe('http://localhost:8080/');
+        expect(normalizeBaseUrl('file:///tmp/podcast/')).toBeNull();
+        expect(normalizeBaseUrl('localhost:8080')).toBeNull();
+    });
+});
+
+describe('formatItunesDuration', () => {
+    it('pads hours, minutes and seconds', () => {
+        expect(formatItunesDuration(4.6)).toBe('00:00:05');
+        expect(formatItunesDuration(3725)).toBe('01:02:05');
+    });
+});
+
+describe('buildPodcastBundle', () => {
+    const entry = (id: string, title: string, seconds: number): SummaryEntry => ({
+        id,
+        title,
+        articleText: 'Article',
+        summary: `Summary of ${title}.`,
+        // Two segments of a quiet tone, one per sentence.
+        audioSegments: [0, 1].map(() => {
+            const samples = new Int16Array(Math.round((24000 * seconds) / 2));
+            samples.forEach((_, i) => { samples[i] = Math.round(Math.sin(i / 10) * 1000); });
+            return new Uint8Array(samples.buffer);
+        }),
+        sampleRate: 24000,
+        voice: 'Kore',
+        summaryModel: 'model',
+        speechModel: 'tts',
+        createdAt: Date.UTC(2026, 9, 19),
+    });
+
+    it('packs MP3 episodes, the feed and an index page into a ZIP', async () => {
+        const progress: string[] = [];
+        const entries = [entry('aaaaaaaa-1', 'Bridge opens', 1), entry('bbbbbbbb-2', 'Bridge opens', 0.5), { ...entry('cccccccc-3', 'Silent', 1), audioSegments: [] }];
+        const zip = await buildPodcastBundle(entries, DEFAULT_PODCAST_SETTINGS, {
+            cover: { data: new Uint8Array([1, 2, 3]), type: 'image/png' },
+            onProgress: (episode, total) => progress.push(`${episode}/${total}`),
+        });
+
+        const files = readZip(zip);
+        expect([...files.keys()]).toEqual([
+            'feed.xml',
+            'index.html',
+            'episodes/bridge-opens-aaaaaaaa.mp3',
+            'episodes/bridge-opens-bbbbbbbb.mp3',
+            'cover.png',
+        ]);
+        expect(progress).toEqual(['1/2', '2/2']);
+
+        const mp3 = files.get('episodes/bridge-opens-aaaaaaaa.mp3')!;
+        // An MPEG audio frame sync at the start of the file.
+        expect(mp3[0]).toBe(0xff);
+        expect(mp3[1] & 0xe0).toBe(0xe0);
+
+        const feed = parse(new TextDecoder().decode(files.get('feed.xml')));
+        const [first] = feed.querySelectorAll('item');
+        expect(first.querySelector('guid')!.textContent).toBe('aaaaaaaa-1');
+        expect(first.querySelector('enclosure')!.getAttribute('length')).toBe(String(mp3.byteLength));
+        expect(first.getElementsByTagNameNS(ITUNES, 'duration')[0].textContent).toBe('00:00:01');
+        expect(feed.querySelectorAll('item')).toHaveLength(2);
+        expect(new TextDecoder().decode(files.get('index.html'))).toContain('src="episodes/bridge-opens-bbbbbbbb.mp3"');
+    });
+});
@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createSegmentedPlayer } from '../utils/segmentedPlayer';
+import { FakeAudioBuffer, FakeAudioContext, asAudioContext } from './fakes/webAudio';
+
+const segment = (seconds: number) => new FakeAudioBuffer(1, seconds * 1000, 1000) as unknown as AudioBuffer;
+
+describe('createSegmentedPlayer', () => {
+    let context: FakeAudioContext;
+    let player: ReturnType<typeof createSegmentedPlayer>;
+
+    beforeEach(() => {
+        context = new FakeAudioContext();
+        player = createSegmentedPlayer(async () => asAudioContext(context));
+    });
+
+    const started = () => context.sources.filter(source => !source.isStopped).map(source => source.startTime);
+
+    it('does nothing when played before any audio arrives', async () => {
+        await player.play();
+        expect(player.getState()).toMatchObject({ isPlaying: false, duration: 0 });
+    });
+
+    it('schedules segments back to back, including ones appended while playing', async () => {
+        player.append(segment(2));
+        await player.play();
+        player.append(segment(1));
+        expect(started()).toEqual([0, 2]);
+        expect(player.getState().duration).toBe(3);
+
+        context.advance(2.5);
+        expect(player.getPosition()).toBeCloseTo(2.5);
+    });
+
+    it('waits at the end of the appended audio until more arrives, then continues', async () => {
+        player.append(segment(1));
+        await player.play();
+        context.advance(1.5);
+        expect(player.getState()).toMatchObject({ isPlaying: true, position: 1 });
+
+        player.append(segment(1));
+        expect(context.sources[1].startTime).toBe(1.5);
+        context.advance(0.5);
+        expect(player.getPosition()).toBeCloseTo(1.5);
+    });
+
+    it('finishes once complete and every segment has played', async () => {
+        player.append(segment(1));
+        await player.play();
+        player.setComplete(true);
+        expect(player.getState().isPlaying).toBe(true);
+
+        context.advance(1);
+        expect(player.getState()).toMatchObject({ isPlaying: false, position: 1, isComplete: true });
+    });
+
+    it('finishes when marked complete after the audio already ran out', async () => {
+        player.append(segment(1));
+        await player.play();
+        context.advance(2);
+        expect(player.getState().isPlaying).toBe(true);
+
+        player.setComplete(true);
+        expect(player.getState().isPlaying).toBe(false);
+    });
+
+    it('resumes from where it was paused', async () => {
+        player.append(segment(2));
+        player.append(segment(2));
+        await player.play();
+        context.advance(2.5);
+        player.pause();
+        expect(player.getState()).toMatchObject({ isPlaying: false, position: 2.5 });
+        expect(context.playingSources).toHaveLength(0);
+
+        context.advance(10);
+        await player.play();
+        const resumed = context.sources.slice(-1)[0];
+        expect(resumed).toMatchObject({ startTime: 12.5, offset: 0.5 });
+    });
+
+    it('seeks into the middle of a segment while playing', async () => {
+        player.append(segment(2));
+        player.append(segment(2));
+        await player.play();
+        player.seek(3);
+        const [current] = context.playingSources;
+        expect(current.buffer?.duration).toBe(2);
+        expect(current.offset).toBe(1);
+        expect(player.getPosition()).toBe(3);
+    });
+
+    it('keeps timeline position when the playback rate changes', async () => {
+        player.append(segment(4));
+        await player.play();
+        context.advance(1);
+        player.setPlaybackRate(2);
+        context.advance(1);
+        expect(player.getPosition()).toBeCloseTo(3);
+    });
+
+    it('ignores ended events from sources it already replaced', async () => {
+        player.append(segment(1));
+        player.append(segment(1));
+        player.setComplete(true);
+        await player.play();
+        // Just before the last segment ends, so a stale `ended` would look like the finish.
+        context.advance(1.995);
+        player.seek(0.5);
+        expect(player.getState()).toMatchObject({ isPlaying: true, position: 0.5 });
+    });
+
+    it('starts over when played again after finishing', async () => {
+        player.append(segment(1));
+        player.setComplete(true);
+        await player.play();
+        context.advance(1);
+        await player.play();
+        expect(player.getState()).toMatchObject({ isPlaying: true, position: 0 });
+    });
+
+    it('forgets everything on reset', async () => {
+        player.append(segment(1));
+        await player.play();
+        player.reset();
+        expect(player.getState()).toEqual({ isPlaying: false, position: 0, duration: 0, playbackRate: 1, isComplete: false });
+        expect(context.playingSources).toHaveLength(0);
+    });
+});
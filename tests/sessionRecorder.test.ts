@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { createSessionRecorder } from '../utils/sessionRecorder';
+
+const RATE = 16000;
+
+/** `ms` of mic audio at a constant level, so each chunk can be found in the output. */
+const chunk = (ms: number, level: number) => new Int16Array((ms / 1000) * RATE).fill(level);
+
+/** The samples of a mono WAV without markers. */
+const samplesOf = (wav: Uint8Array) => new Int16Array(wav.slice(44).buffer);
+
+/** The level at `ms` into the track. */
+const at = (samples: Int16Array, ms: number) => samples[Math.round((ms / 1000) * RATE)];
+
+describe('createSessionRecorder', () => {
+    it('keeps gated mic audio where it was spoken, with silence between', () => {
+        const recorder = createSessionRecorder(RATE, RATE);
+        // Push-to-talk: a first press, then a second after a pause.
+        recorder.addUserAudio(chunk(100, 1000), 200);
+        recorder.addUserAudio(chunk(100, 2000), 600);
+        // Voice-activity pre-roll released together with the chunk that triggered it.
+        recorder.addUserAudio(chunk(100, 3000), 900);
+        recorder.addUserAudio(chunk(100, 4000), 1000);
+        // Overlaps the last 50 ms already recorded, which are kept.
+        recorder.addUserAudio(chunk(100, 5000), 1050);
+        recorder.addModelAudio(chunk(100, 7000), 1100);
+
+        const { user, model } = recorder.toTrackWavs();
+        const userSamples = samplesOf(user);
+        expect(userSamples.length).toBe(samplesOf(model).length);
+        expect(at(userSamples, 50)).toBe(0);
+        expect(at(userSamples, 150)).toBe(1000);
+        expect(at(userSamples, 350)).toBe(0);
+        expect(at(userSamples, 550)).toBe(2000);
+        expect(at(userSamples, 700)).toBe(0);
+        expect(at(userSamples, 850)).toBe(3000);
+        expect(at(userSamples, 950)).toBe(4000);
+        expect(at(userSamples, 1025)).toBe(5000);
+        expect(at(userSamples, 1075)).toBe(0);
+        expect(at(samplesOf(model), 1150)).toBe(7000);
+    });
+
+    it('joins chunks that arrive a little early or late', () => {
+        const recorder = createSessionRecorder(RATE, RATE);
+        recorder.addUserAudio(chunk(100, 1000), 100);
+        recorder.addUserAudio(chunk(100, 2000), 210);
+        recorder.addUserAudio(chunk(100, 3000), 290);
+
+        const samples = samplesOf(recorder.toTrackWavs().user);
+        expect(samples.length).toBe(RATE * 0.3);
+        expect(samples.every(sample => sample > 0)).toBe(true);
+    });
+});
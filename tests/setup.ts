@@ -0,0 +1,21 @@
+import { cleanup } from '@testing-library/react';
+import { afterEach, vi } from 'vitest';
+import { setProvider } from '../services/providers';
+import { setAudioEngine } from '../services/audioEngine';
+import { setArticleFetcher } from '../services/articleFetcher';
+import { clearUsageHistory } from '../services/telemetry';
+import { clearReminders } from '../services/reminders';
+
+afterEach(() => {
+    cleanup();
+    setProvider(null);
+    setAudioEngine(null);
+    setArticleFetcher(null);
+    clearReminders();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    // Absent in tests that run in the node environment.
+    if (globalThis.localStorage) clearUsageHistory();
+    globalThis.localStorage?.clear();
+    globalThis.sessionStorage?.clear();
+});
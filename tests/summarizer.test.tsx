@@ -0,0 +1,170 @@
+import React from 'react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import App from '../App';
+import { setArticleFetcher } from '../services/articleFetcher';
+import { AuthError } from '../services/errors';
+import { setProvider } from '../services/providers';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { AIProvider } from '../services/providers/types';
+import { saveSummary } from '../services/summaryLibrary';
+import { FakeAudioContext, installFakeWebAudio } from './fakes/webAudio';
+
+vi.mock('../services/summaryLibrary', async (importOriginal) => ({
+    ...await importOriginal<typeof import('../services/summaryLibrary')>(),
+    saveSummary: vi.fn(async (entry: object) => ({ ...entry, id: 'saved' })),
+}));
+
+vi.mock('../services/conversationLibrary', async (importOriginal) => ({
+    ...await importOriginal<typeof import('../services/conversationLibrary')>(),
+    listConversations: vi.fn(async () => []),
+}));
+
+const ARTICLE = 'The city opened a new bridge on Monday. Traffic across the river fell by half. Officials expect more cyclists by summer.';
+
+const generate = (article = ARTICLE) => {
+    fireEvent.change(screen.getByLabelText(/Paste an article/), { target: { value: article } });
+    fireEvent.click(screen.getByRole('button', { name: 'Generate Audio Summary' }));
+};
+
+describe('Summarizer', () => {
+    beforeEach(() => {
+        installFakeWebAudio();
+        vi.mocked(saveSummary).mockClear();
+    });
+
+    const useProvider = (overrides: Partial<AIProvider> = {}) => setProvider({ ...createMockProvider(), ...overrides });
+
+    it('asks for an article before generating', () => {
+        useProvider();
+        render(<App />);
+        fireEvent.click(screen.getByRole('button', { name: 'Generate Audio Summary' }));
+        expect(screen.getByText('Please paste a news article first.')).toBeTruthy();
+    });
+
+    it('streams the summary, plays each sentence as it is synthesized, and saves the result', async () => {
+        const synthesizeSpeech = vi.fn(createMockProvider().synthesizeSpeech);
+        useProvider({ synthesizeSpeech });
+        render(<App />);
+
+        generate();
+        expect(await screen.findByRole('button', { name: /Generating/ })).toBeTruthy();
+
+        await waitFor(() => expect(saveSummary).toHaveBeenCalled(), { timeout: 3000 });
+        const saved = vi.mocked(saveSummary).mock.calls[0][0];
+        expect(saved.summary).toBe('This is an offline mock summary. The city opened a new bridge on Monday. Traffic across the river fell by half.');
+        expect(saved.sentences).toEqual([
+            'This is an offline mock summary.',
+            'The city opened a new bridge on Monday.',
+            'Traffic across the river fell by half.',
+        ]);
+        expect(saved.audioSegments).toHaveLength(3);
+        expect(synthesizeSpeech).toHaveBeenCalledTimes(3);
+
+        // One context, started on the first sentence and fed the rest gaplessly.
+        expect(FakeAudioContext.instances).toHaveLength(1);
+        const [context] = FakeAudioContext.instances;
+        const starts = context.sources.map(source => source.startTime);
+        expect(starts[0]).toBe(0);
+        expect(starts[1]).toBeCloseTo(context.sources[0].buffer!.duration);
+        expect(await screen.findByRole('button', { name: 'Generate Audio Summary' })).toBeTruthy();
+    });
+
+    it('shows why generation failed and allows another try', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        useProvider({
+            async *summarizeStream() {
+                throw new AuthError('API key not valid');
+            },
+        });
+        render(<App />);
+
+        generate();
+
+        expect(await screen.findByText(/rejected the API key/)).toBeTruthy();
+        expect(screen.getByRole('button', { name: 'Generate Audio Summary' })).toHaveProperty('disabled', false);
+        expect(saveSummary).not.toHaveBeenCalled();
+    });
+
+    it('reports a speech failure after playing the sentences before it', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const mock = createMockProvider();
+        useProvider({
+            synthesizeSpeech: async (text, options) => {
+                if (text.startsWith('Traffic')) throw new Error('Request failed');
+                return mock.synthesizeSpeech(text, options);
+            },
+        });
+        render(<App />);
+
+        generate();
+
+        expect(await screen.findByText('Failed to generate the summary or audio. Please try again.', undefined, { timeout: 3000 })).toBeTruthy();
+        expect(screen.getByText('Your Summary')).toBeTruthy();
+        // The sentences before the failure were still played.
+        expect(FakeAudioContext.instances[0].sources).toHaveLength(2);
+        expect(saveSummary).not.toHaveBeenCalled();
+    });
+
+    it('starts a fresh timeline when generating again', async () => {
+        useProvider();
+        render(<App />);
+
+        generate('First article here. It has two sentences.');
+        await waitFor(() => expect(saveSummary).toHaveBeenCalledTimes(1), { timeout: 3000 });
+        const [context] = FakeAudioContext.instances;
+        const firstRun = [...context.sources];
+
+        generate();
+        await waitFor(() => expect(saveSummary).toHaveBeenCalledTimes(2), { timeout: 3000 });
+
+        expect(firstRun.every(source => source.isStopped)).toBe(true);
+        expect(context.sources[firstRun.length].startTime).toBe(0);
+        expect(vi.mocked(saveSummary).mock.calls[1][0].articleText).toBe(ARTICLE);
+    });
+
+    it('imports a pasted URL before asking about it', async () => {
+        useProvider();
+        setArticleFetcher(async (url) => ({
+            url,
+            contentType: 'text/plain',
+            body: new TextEncoder().encode(`Bridge reopens\n${ARTICLE}`).buffer,
+        }));
+        render(<App />);
+
+        fireEvent.change(screen.getByLabelText(/Paste an article/), { target: { value: 'https://news.example/bridge' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Ask about this article' }));
+
+        expect(await screen.findByText('Bridge reopens')).toBeTruthy();
+        expect(screen.getByText(/Answers are drawn from the article/)).toBeTruthy();
+    });
+
+    describe('switching tabs', () => {
+        const playSummary = async () => {
+            useProvider();
+            render(<App />);
+            generate();
+            await waitFor(() => expect(saveSummary).toHaveBeenCalled(), { timeout: 3000 });
+            const [context] = FakeAudioContext.instances;
+            expect(context.playingSources.length).toBeGreaterThan(0);
+            return context;
+        };
+
+        it('pauses the summary by default', async () => {
+            const context = await playSummary();
+            fireEvent.click(screen.getByRole('button', { name: 'Digest' }));
+            expect(context.playingSources).toHaveLength(0);
+
+            fireEvent.click(screen.getByRole('button', { name: 'Summarizer' }));
+            expect(screen.getByRole('button', { name: 'Play' })).toBeTruthy();
+        });
+
+        it('keeps the summary playing when the setting says so', async () => {
+            localStorage.setItem('audioSettings', JSON.stringify({ onTabSwitch: 'keep' }));
+            const context = await playSummary();
+            const playing = context.playingSources;
+            fireEvent.click(screen.getByRole('button', { name: 'Digest' }));
+            expect(context.playingSources).toEqual(playing);
+        });
+    });
+});
@@ -0,0 +1,146 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { connectLiveSession, summarizeArticle } from '../services/geminiService';
+import { DEFAULT_SUMMARY_OPTIONS } from '../services/prompts';
+import { setProvider } from '../services/providers';
+import { createMockProvider } from '../services/providers/mockProvider';
+import {
+    base64PcmSeconds,
+    estimateDayCost,
+    getBudgetStatus,
+    getUsageHistory,
+    recordUsage,
+    saveBudgetSettings,
+    subscribeToUsage,
+    trackCall,
+} from '../services/telemetry';
+import { createFakeLiveProvider } from './fakes/liveSession';
+
+const liveOptions = (onmessage = vi.fn()) => ({
+    callbacks: { onopen: vi.fn(), onmessage, onerror: vi.fn(), onclose: vi.fn() },
+});
+
+/** Base64 of `seconds` of silent 16-bit PCM. */
+const silence = (seconds: number, sampleRate: number) =>
+    btoa(String.fromCharCode(...new Uint8Array(Math.round(seconds * sampleRate) * 2)));
+
+describe('usage telemetry', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('records a call with its tokens and timings, saving and notifying once per batch', () => {
+        vi.useFakeTimers();
+        const listener = vi.fn();
+        subscribeToUsage(listener);
+
+        const call = trackCall('summary');
+        vi.advanceTimersByTime(200);
+        call.firstByte();
+        vi.advanceTimersByTime(300);
+        call.addTokens({ promptTokens: 1200, responseTokens: 150 });
+        call.finish(true);
+        call.finish(false);
+        trackCall('summary').finish(false);
+
+        const [today] = getUsageHistory();
+        expect(today.byKind.summary).toMatchObject({
+            calls: 2,
+            failures: 1,
+            promptTokens: 1200,
+            responseTokens: 150,
+            ttfbMs: 200,
+            ttfbSamples: 1,
+            latencyMs: 500,
+            latencySamples: 2,
+        });
+        expect(listener).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(1000);
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(JSON.parse(localStorage.getItem('usageTelemetry')!)[0].byKind.summary.calls).toBe(2);
+    });
+
+    it('prices tokens by the kind of call and reports the budget level', () => {
+        recordUsage('summary', { promptTokens: 1_000_000, responseTokens: 100_000 });
+        recordUsage('live', { promptTokens: 100_000 });
+        expect(estimateDayCost(getUsageHistory()[0])).toBeCloseTo(0.3 + 0.25 + 0.3);
+
+        expect(getBudgetStatus().level).toBe('ok');
+        saveBudgetSettings({ warnAtUsd: 0.5, capAtUsd: 1 });
+        expect(getBudgetStatus().level).toBe('warning');
+        saveBudgetSettings({ warnAtUsd: 0.5, capAtUsd: 0.85 });
+        expect(getBudgetStatus()).toMatchObject({ level: 'exceeded', spentUsd: expect.closeTo(0.85) });
+    });
+
+    it('counts 16-bit PCM seconds from base64', () => {
+        expect(base64PcmSeconds(silence(1, 16000), 16000)).toBe(1);
+        expect(base64PcmSeconds(silence(0.5, 24000), 24000)).toBe(0.5);
+    });
+});
+
+describe('budget cap', () => {
+    it('blocks new requests once today\'s spend reaches the cap', async () => {
+        const summarize = vi.fn<ReturnType<typeof createMockProvider>['summarize']>(async (_text, _options, onUsage) => {
+            onUsage?.({ promptTokens: 1_000_000, responseTokens: 0 });
+            return 'A summary.';
+        });
+        setProvider({ ...createMockProvider(), summarize });
+        saveBudgetSettings({ warnAtUsd: 0, capAtUsd: 0.25 });
+
+        await expect(summarizeArticle('Article', DEFAULT_SUMMARY_OPTIONS)).resolves.toBe('A summary.');
+        await expect(summarizeArticle('Article', DEFAULT_SUMMARY_OPTIONS)).rejects.toMatchObject({ kind: 'budget' });
+        expect(summarize).toHaveBeenCalledTimes(1);
+        await expect(connectLiveSession(liveOptions())).rejects.toMatchObject({ kind: 'budget' });
+    });
+
+    it('closes an open live session once its turns reach the cap', async () => {
+        const { provider, sessions } = createFakeLiveProvider();
+        setProvider(provider);
+        saveBudgetSettings({ warnAtUsd: 0, capAtUsd: 0.5 });
+        const options = liveOptions();
+        await connectLiveSession(options);
+        const [session] = sessions;
+        session.open();
+
+        // 100k prompt tokens at $3 per million.
+        await session.emit({ usage: { promptTokens: 100_000, responseTokens: 0 }, turnComplete: true });
+        expect(session.isClosed).toBe(false);
+        await session.emit({ usage: { promptTokens: 100_000, responseTokens: 0 }, turnComplete: true });
+
+        expect(session.isClosed).toBe(true);
+        expect(options.callbacks.onerror).toHaveBeenCalledWith(expect.objectContaining({ kind: 'budget' }));
+        expect(options.callbacks.onmessage).toHaveBeenCalledTimes(1);
+        session.drop();
+        expect(options.callbacks.onclose).not.toHaveBeenCalled();
+    });
+});
+
+describe('live session telemetry', () => {
+    it('records audio sent each way, turn tokens and time to first audio', async () => {
+        const { provider, sessions } = createFakeLiveProvider();
+        setProvider(provider);
+        const onmessage = vi.fn();
+        const handle = await connectLiveSession(liveOptions(onmessage));
+        const [session] = sessions;
+        session.open();
+
+        handle.sendRealtimeInput({ media: { data: silence(1, 16000), mimeType: 'audio/pcm;rate=16000' } });
+        handle.sendText('What happened?');
+        await session.emit({ audio: silence(0.5, 24000) });
+        await session.emit({ usage: { promptTokens: 40, responseTokens: 90 }, turnComplete: true });
+
+        const live = getUsageHistory()[0].byKind.live;
+        expect(live).toMatchObject({
+            calls: 1,
+            failures: 0,
+            liveInputSeconds: 1,
+            liveOutputSeconds: 0.5,
+            promptTokens: 40,
+            responseTokens: 90,
+            ttfbSamples: 1,
+        });
+        expect(session.realtimeInputs).toHaveLength(1);
+        expect(session.texts).toEqual(['What happened?']);
+        expect(onmessage).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { createSentenceSplitter, splitSentences } from '../utils/textUtils';
+
+describe('createSentenceSplitter', () => {
+    it('emits English sentences as soon as the next one starts', () => {
+        const splitter = createSentenceSplitter();
+        expect(splitter.push('The bridge reopened on Saturday morning.')).toEqual([]);
+        expect(splitter.push(' Buses return to the route on')).toEqual(['The bridge reopened on Saturday morning.']);
+        expect(splitter.push(' Monday.')).toEqual([]);
+        expect(splitter.flush()).toEqual(['Buses return to the route on Monday.']);
+    });
+
+    it('splits Chinese and Japanese sentences, which have no space after the full stop', () => {
+        const splitter = createSentenceSplitter();
+        const first = '市政府星期六宣布，经过两年维修的老磨坊桥已于当天早上重新开放通车。';
+        const second = '「橋の修理費は当初の見積もりより約三分の一多くかかり、州の補助金で賄われた。」';
+        expect(splitter.push(first)).toEqual([]);
+        expect(splitter.push(second.slice(0, 10))).toEqual([first]);
+        // The closing quote may still arrive, so a full stop at the end of the text waits for it.
+        expect(splitter.push(second.slice(10, -1))).toEqual([]);
+        expect(splitter.push('」次')).toEqual([second]);
+        expect(splitter.flush()).toEqual(['次']);
+    });
+
+    it('keeps short fragments with the following sentence', () => {
+        expect(splitSentences('天気は晴れ。午後から雨が降るでしょう。明日の朝はとても寒くなる見込みです。')).toEqual([
+            '天気は晴れ。午後から雨が降るでしょう。明日の朝はとても寒くなる見込みです。',
+        ]);
+    });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { TranscriptEntry } from '../services/conversationLibrary';
+import { appendToolCall, appendTranscription, completeToolCall } from '../utils/transcripts';
+
+describe('appendTranscription', () => {
+    it('extends an unfinished entry from the same speaker', () => {
+        let entries: TranscriptEntry[] = [];
+        entries = appendTranscription(entries, 'user', 'Hello', false, 100);
+        entries = appendTranscription(entries, 'user', ' there', false, 250);
+        expect(entries).toEqual([{ speaker: 'user', text: 'Hello there', isFinal: false, startMs: 100, endMs: 250 }]);
+    });
+
+    it('starts a new entry when the speaker changes', () => {
+        let entries = appendTranscription([], 'user', 'What time is it?', false, 0);
+        entries = appendTranscription(entries, 'model', 'It is', false, 400);
+        entries = appendTranscription(entries, 'model', ' noon.', false, 500);
+        expect(entries.map(entry => [entry.speaker, entry.text])).toEqual([
+            ['user', 'What time is it?'],
+            ['model', 'It is noon.'],
+        ]);
+    });
+
+    it('starts a new entry after a final one from the same speaker', () => {
+        let entries = appendTranscription([], 'model', 'First.', true, 0);
+        entries = appendTranscription(entries, 'model', 'Second.', false, 900);
+        expect(entries).toHaveLength(2);
+        expect(entries[1]).toMatchObject({ text: 'Second.', startMs: 900 });
+    });
+
+    it('marks the merged entry final with the last delta', () => {
+        let entries = appendTranscription([], 'user', 'Hi', false, 0);
+        entries = appendTranscription(entries, 'user', '!', true, 50);
+        expect(entries).toEqual([{ speaker: 'user', text: 'Hi!', isFinal: true, startMs: 0, endMs: 50 }]);
+    });
+
+    it('leaves the previous array untouched', () => {
+        const before = appendTranscription([], 'user', 'Hi', false, 0);
+        appendTranscription(before, 'user', ' again', false, 10);
+        expect(before[0].text).toBe('Hi');
+    });
+});
+
+describe('tool calls', () => {
+    const call = { id: 'call-1', name: 'set_timer', args: { minutes: 5, label: 'tea' } };
+
+    it('adds a running entry describing the call', () => {
+        const entries = appendToolCall([], call, 300);
+        expect(entries).toEqual([{
+            speaker: 'tool',
+            text: 'set_timer(minutes: 5, label: "tea")',
+            isFinal: true,
+            startMs: 300,
+            endMs: 300,
+            tool: { callId: 'call-1', name: 'set_timer', args: call.args, status: 'running' },
+        }]);
+    });
+
+    it('records the result on the matching entry', () => {
+        let entries = appendToolCall([], call, 300);
+        entries = appendToolCall(entries, { ...call, id: 'call-2' }, 310);
+        entries = completeToolCall(entries, 'call-1', { scheduled: true }, 450);
+        expect(entries[0]).toMatchObject({ endMs: 450, text: 'set_timer(minutes: 5, label: "tea") → {"scheduled":true}' });
+        expect(entries[0].tool?.status).toBe('done');
+        expect(entries[1].tool?.status).toBe('running');
+    });
+
+    it('marks a call with an error response as failed', () => {
+        const entries = completeToolCall(appendToolCall([], call, 0), 'call-1', { error: 'Too long' }, 10);
+        expect(entries[0].tool?.status).toBe('failed');
+        expect(entries[0].text).toBe('set_timer(minutes: 5, label: "tea") → failed: Too long');
+    });
+
+    it('truncates long results', () => {
+        const entries = completeToolCall(appendToolCall([], call, 0), 'call-1', { summary: 'x'.repeat(500) }, 10);
+        expect(entries[0].text).toHaveLength(160);
+        expect(entries[0].text.endsWith('…')).toBe(true);
+    });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { getDefaultVoices } from '../services/geminiService';
+import { setProvider } from '../services/providers';
+import { createGeminiProvider } from '../services/providers/geminiProvider';
+import { loadVoiceSettings, saveVoiceSettings } from '../services/voiceSettings';
+
+describe('loadVoiceSettings', () => {
+    it('leaves the voice unset until one is chosen, so summaries and conversations keep their own', () => {
+        setProvider(createGeminiProvider());
+        expect(loadVoiceSettings()).toEqual({ speakingStyle: 'neutral', pace: 'normal' });
+        expect(getDefaultVoices()).toEqual({ speech: 'Kore', live: 'Zephyr' });
+    });
+
+    it('keeps a chosen voice and drops one the provider no longer offers', () => {
+        setProvider(createGeminiProvider());
+        saveVoiceSettings({ voice: 'Puck', speakingStyle: 'calm', pace: 'slow' });
+        expect(loadVoiceSettings()).toEqual({ voice: 'Puck', speakingStyle: 'calm', pace: 'slow' });
+
+        saveVoiceSettings({ voice: 'Retired', speakingStyle: 'calm', pace: 'slow' });
+        expect(loadVoiceSettings().voice).toBeUndefined();
+    });
+});
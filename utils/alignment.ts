@@ -0,0 +1,99 @@
+export type WordTiming = {
+  text: string;
+  /** Seconds on the player timeline. */
+  start: number;
+  end: number;
+};
+
+export type TimedSentence = {
+  text: string;
+  start: number;
+  end: number;
+  words: WordTiming[];
+};
+
+const FRAME_SECONDS = 0.02;
+// Frames quieter than this fraction of the loudest frame count as pauses between words.
+const SILENCE_RATIO = 0.1;
+
+/**
+ * Estimates when each word of `text` is spoken in `samples`, for TTS output that comes without
+ * timestamps. Speech time is found from frame energy, then shared between the words in
+ * proportion to their length, so pauses and silent lead-in/out don't drift the highlight.
+ * Times are relative to the start of `samples`.
+ */
+export function estimateWordTimings(text: string, samples: Float32Array, sampleRate: number): WordTiming[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const frameSize = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+  const frameCount = Math.ceil(samples.length / frameSize);
+  const energies = new Float32Array(frameCount);
+  let peak = 0;
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0;
+    const end = Math.min(samples.length, (frame + 1) * frameSize);
+    for (let i = frame * frameSize; i < end; i++) {
+      sum += samples[i] * samples[i];
+    }
+    energies[frame] = Math.sqrt(sum / Math.max(1, end - frame * frameSize));
+    peak = Math.max(peak, energies[frame]);
+  }
+
+  // voicedPrefix[k] = number of voiced frames before frame k.
+  const voicedPrefix = new Uint32Array(frameCount + 1);
+  for (let frame = 0; frame < frameCount; frame++) {
+    const voiced = peak === 0 || energies[frame] >= peak * SILENCE_RATIO;
+    voicedPrefix[frame + 1] = voicedPrefix[frame] + (voiced ? 1 : 0);
+  }
+  const totalVoiced = voicedPrefix[frameCount];
+  const duration = samples.length / sampleRate;
+
+  // Maps an amount of voiced time (in frames) back to a position in the audio.
+  const timeAtVoiced = (voicedFrames: number): number => {
+    if (totalVoiced === 0) return (voicedFrames / Math.max(1, frameCount)) * duration;
+    let low = 0;
+    let high = frameCount;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (voicedPrefix[mid + 1] > voicedFrames) high = mid;
+      else low = mid + 1;
+    }
+    return Math.min(duration, low * FRAME_SECONDS);
+  };
+
+  const weights = words.map(word => word.length + 1);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const voicedTotal = totalVoiced === 0 ? frameCount : totalVoiced;
+  let cumulative = 0;
+  return words.map((word, index) => {
+    const start = timeAtVoiced((cumulative / totalWeight) * voicedTotal);
+    cumulative += weights[index];
+    const end = index === words.length - 1
+      ? timeAtVoiced(voicedTotal - 1) + FRAME_SECONDS
+      : timeAtVoiced((cumulative / totalWeight) * voicedTotal);
+    return { text: word, start, end: Math.min(duration, Math.max(start, end)) };
+  });
+}
+
+/** Aligns one synthesized sentence whose audio starts at `offset` on the timeline. */
+export function alignSentence(text: string, buffer: AudioBuffer, offset: number): TimedSentence {
+  const words = estimateWordTimings(text, buffer.getChannelData(0), buffer.sampleRate).map(word => ({
+    ...word,
+    start: word.start + offset,
+    end: word.end + offset,
+  }));
+  return { text, start: offset, end: offset + buffer.duration, words };
+}
+
+/** Returns the indices of the sentence and word playing at `position`, or -1 when none is. */
+export function findActiveWord(sentences: TimedSentence[], position: number): { sentence: number; word: number } {
+  const sentence = sentences.findIndex(item => position >= item.start && position < item.end);
+  if (sentence === -1) return { sentence: -1, word: -1 };
+  const words = sentences[sentence].words;
+  let word = -1;
+  for (let i = 0; i < words.length && words[i].start <= position; i++) {
+    word = i;
+  }
+  return { sentence, word };
+}
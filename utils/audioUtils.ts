@@ -9,14 +9,22 @@ export function decode(base64: string): Uint8Array {
   return bytes;
 }
 
+/**
+ * Converts interleaved little-endian 16-bit PCM to an AudioBuffer. A trailing odd byte or
+ * incomplete frame, as a truncated stream can end with, is dropped.
+ */
 export async function decodeAudioData(
   data: Uint8Array,
   ctx: AudioContext,
   sampleRate: number,
   numChannels: number,
 ): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
+  const sampleCount = data.byteLength >> 1;
+  // Int16Array views need an even byte offset; copy when the bytes are a misaligned view.
+  const dataInt16 = data.byteOffset % 2 === 0
+    ? new Int16Array(data.buffer, data.byteOffset, sampleCount)
+    : new Int16Array(data.slice(0, sampleCount * 2).buffer);
+  const frameCount = Math.floor(sampleCount / numChannels);
   const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
 
   for (let channel = 0; channel < numChannels; channel++) {
@@ -29,10 +37,113 @@ export async function decodeAudioData(
 }
 
 export function encode(bytes: Uint8Array): string {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  // Converting in blocks avoids both per-byte string concatenation and call-stack limits on apply.
+  const blockSize = 0x8000;
+  const parts: string[] = [];
+  for (let i = 0; i < bytes.byteLength; i += blockSize) {
+    parts.push(String.fromCharCode.apply(null, bytes.subarray(i, i + blockSize) as unknown as number[]));
+  }
+  return btoa(parts.join(''));
+}
+
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return result;
+}
+
+export type WavMarker = {
+  /** Position in sample frames from the start of the data. */
+  frame: number;
+  label: string;
+};
+
+/**
+ * Wraps little-endian 16-bit PCM in a RIFF/WAVE container. Markers are written as `cue ` points
+ * with `labl` names, which audio editors show as labelled regions on the timeline.
+ */
+export function encodeWav(pcm: Uint8Array, sampleRate: number, numChannels: number, markers: WavMarker[] = []): Uint8Array {
+  const bytesPerSample = 2;
+  // A trailing odd byte can't form a sample; drop it rather than write a malformed data chunk.
+  const dataLength = pcm.byteLength - (pcm.byteLength % (bytesPerSample * numChannels));
+  const labels = markers.map(marker => {
+    const text = new TextEncoder().encode(`${marker.label}\0`);
+    // Chunks are word-aligned, so odd-length text gets a pad byte.
+    return { text, size: 4 + text.byteLength, padded: 4 + text.byteLength + (text.byteLength % 2) };
+  });
+  const cueLength = markers.length > 0 ? 8 + 4 + markers.length * 24 : 0;
+  const listLength = markers.length > 0 ? 8 + 4 + labels.reduce((sum, label) => sum + 8 + label.padded, 0) : 0;
+  const wav = new Uint8Array(44 + dataLength + cueLength + listLength);
+  const view = new DataView(wav.buffer);
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, wav.byteLength - 8, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * bytesPerSample, true);
+  view.setUint16(32, numChannels * bytesPerSample, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeAscii(36, 'data');
+  view.setUint32(40, dataLength, true);
+  wav.set(pcm.subarray(0, dataLength), 44);
+
+  if (markers.length > 0) {
+    let offset = 44 + dataLength;
+    writeAscii(offset, 'cue ');
+    view.setUint32(offset + 4, cueLength - 8, true);
+    view.setUint32(offset + 8, markers.length, true);
+    offset += 12;
+    markers.forEach((marker, index) => {
+      view.setUint32(offset, index + 1, true); // cue point id
+      view.setUint32(offset + 4, marker.frame, true); // play order position
+      writeAscii(offset + 8, 'data');
+      view.setUint32(offset + 12, 0, true); // chunk start
+      view.setUint32(offset + 16, 0, true); // block start
+      view.setUint32(offset + 20, marker.frame, true); // sample offset
+      offset += 24;
+    });
+
+    writeAscii(offset, 'LIST');
+    view.setUint32(offset + 4, listLength - 8, true);
+    writeAscii(offset + 8, 'adtl');
+    offset += 12;
+    labels.forEach((label, index) => {
+      writeAscii(offset, 'labl');
+      view.setUint32(offset + 4, label.size, true);
+      view.setUint32(offset + 8, index + 1, true);
+      wav.set(label.text, offset + 12);
+      offset += 8 + label.padded;
+    });
+  }
+  return wav;
+}
+
+/** Encodes mono 16-bit PCM to MP3. The encoder is loaded on first use to keep it out of the main bundle. */
+export async function encodeMp3(pcm: Uint8Array, sampleRate: number, kbps = 64): Promise<Uint8Array> {
+  const { Mp3Encoder } = await import('@breezystack/lamejs');
+  const samples = new Int16Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.byteLength / 2));
+  const encoder = new Mp3Encoder(1, sampleRate, kbps);
+  const blockSize = 1152;
+  const parts: Uint8Array[] = [];
+  for (let i = 0; i < samples.length; i += blockSize) {
+    const encoded = encoder.encodeBuffer(samples.subarray(i, i + blockSize));
+    if (encoded.length > 0) parts.push(encoded);
   }
-  return btoa(binary);
+  const tail = encoder.flush();
+  if (tail.length > 0) parts.push(tail);
+  return concatBytes(parts);
 }
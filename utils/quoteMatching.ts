@@ -0,0 +1,80 @@
+/** A passage of an answer that repeats the article word for word, as character ranges in both. */
+export type QuoteMatch = {
+  answerStart: number;
+  answerEnd: number;
+  articleStart: number;
+  articleEnd: number;
+};
+
+type Word = { key: string; start: number; end: number };
+
+// Spoken answers rarely repeat fewer words than this by chance.
+const DEFAULT_MIN_WORDS = 5;
+
+function tokenize(text: string): Word[] {
+  const words: Word[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu)) {
+    words.push({
+      key: match[0].toLowerCase().replace(/[’]/g, "'"),
+      start: match.index!,
+      end: match.index! + match[0].length,
+    });
+  }
+  return words;
+}
+
+/**
+ * Prepares `article` for repeated quote lookups and returns a function that finds the passages
+ * of an answer quoting it. Comparison ignores case and punctuation, since answers arrive as
+ * speech transcriptions without quotation marks. Matches are the longest runs of at least
+ * `minWords` consecutive words, in answer order and non-overlapping.
+ */
+export function createQuoteFinder(article: string, minWords = DEFAULT_MIN_WORDS): (answer: string) => QuoteMatch[] {
+  const articleWords = tokenize(article);
+  const gramKey = (words: Word[], index: number) =>
+    words.slice(index, index + minWords).map(word => word.key).join(' ');
+  const positions = new Map<string, number[]>();
+  for (let i = 0; i + minWords <= articleWords.length; i++) {
+    const key = gramKey(articleWords, i);
+    const list = positions.get(key);
+    if (list) list.push(i);
+    else positions.set(key, [i]);
+  }
+
+  return (answer: string) => {
+    const answerWords = tokenize(answer);
+    const matches: QuoteMatch[] = [];
+    let i = 0;
+    while (i + minWords <= answerWords.length) {
+      const candidates = positions.get(gramKey(answerWords, i));
+      if (!candidates) {
+        i++;
+        continue;
+      }
+      let bestStart = candidates[0];
+      let bestLength = 0;
+      for (const start of candidates) {
+        let length = minWords;
+        while (
+          i + length < answerWords.length &&
+          start + length < articleWords.length &&
+          answerWords[i + length].key === articleWords[start + length].key
+        ) {
+          length++;
+        }
+        if (length > bestLength) {
+          bestStart = start;
+          bestLength = length;
+        }
+      }
+      matches.push({
+        answerStart: answerWords[i].start,
+        answerEnd: answerWords[i + bestLength - 1].end,
+        articleStart: articleWords[bestStart].start,
+        articleEnd: articleWords[bestStart + bestLength - 1].end,
+      });
+      i += bestLength;
+    }
+    return matches;
+  };
+}
@@ -0,0 +1,218 @@
+export type PlayerState = {
+  isPlaying: boolean;
+  /** Seconds into the full timeline, at 1x speed. */
+  position: number;
+  /** Seconds of audio appended so far. */
+  duration: number;
+  playbackRate: number;
+  /** Set once no more segments will be appended. */
+  isComplete: boolean;
+};
+
+type ScheduledSource = {
+  source: AudioBufferSourceNode;
+  segmentIndex: number;
+  /** Context time at which the source starts playing. */
+  contextStart: number;
+  contextEnd: number;
+  /** Offset into the segment buffer at which playback starts. */
+  bufferOffset: number;
+};
+
+/**
+ * Plays a timeline of decoded AudioBuffer segments (e.g. one per sentence) gaplessly, with
+ * pause/resume, seeking and variable speed. Segments can be appended while playback is
+ * running, which is how streamed TTS is played before the whole summary is synthesized.
+ * Decoded buffers are kept, so replaying or seeking never decodes again. Sources connect to
+ * `getOutput`, the context's destination unless an audio engine channel is given.
+ */
+export function createSegmentedPlayer(
+  getContext: () => Promise<AudioContext>,
+  getOutput: (context: AudioContext) => AudioNode = (context) => context.destination,
+) {
+  const segments: AudioBuffer[] = [];
+  // Start time of each segment on the timeline; segmentStarts[i + 1] is the end of segment i.
+  const segmentStarts: number[] = [0];
+  const listeners = new Set<(state: PlayerState) => void>();
+
+  let context: AudioContext | null = null;
+  let scheduled: ScheduledSource[] = [];
+  let nextSegmentIndex = 0;
+  let nextStartTime = 0;
+  let isPlaying = false;
+  let isComplete = false;
+  let pausedAt = 0;
+  let playbackRate = 1;
+  // Bumped whenever scheduled sources are discarded, so their late `ended` events are ignored.
+  let runId = 0;
+
+  const duration = () => segmentStarts[segments.length];
+
+  const getPosition = (): number => {
+    if (!isPlaying || !context || scheduled.length === 0) return pausedAt;
+    const now = context.currentTime;
+    const current = scheduled.find(entry => now < entry.contextEnd) ?? scheduled[scheduled.length - 1];
+    const elapsed = Math.min(Math.max(0, now - current.contextStart), current.contextEnd - current.contextStart);
+    return segmentStarts[current.segmentIndex] + current.bufferOffset + elapsed * playbackRate;
+  };
+
+  const getState = (): PlayerState => ({
+    isPlaying,
+    position: getPosition(),
+    duration: duration(),
+    playbackRate,
+    isComplete,
+  });
+
+  const notify = () => {
+    const state = getState();
+    listeners.forEach(listener => listener(state));
+  };
+
+  const stopSources = () => {
+    runId++;
+    scheduled.forEach(entry => entry.source.stop());
+    scheduled = [];
+  };
+
+  const finish = () => {
+    stopSources();
+    isPlaying = false;
+    pausedAt = duration();
+    notify();
+  };
+
+  const scheduleSegment = (segmentIndex: number, bufferOffset: number) => {
+    if (!context) return;
+    const buffer = segments[segmentIndex];
+    const currentRun = runId;
+    const contextStart = Math.max(nextStartTime, context.currentTime);
+    const contextEnd = contextStart + (buffer.duration - bufferOffset) / playbackRate;
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = playbackRate;
+    source.connect(getOutput(context));
+    const entry: ScheduledSource = { source, segmentIndex, contextStart, contextEnd, bufferOffset };
+    source.addEventListener('ended', () => {
+      if (currentRun !== runId) return;
+      // Keep the last entry so the position stays put while waiting for the next segment.
+      if (scheduled.length > 1) {
+        scheduled = scheduled.filter(item => item !== entry);
+      }
+      if (nextSegmentIndex >= segments.length && context && context.currentTime >= nextStartTime - 0.01 && isComplete) {
+        finish();
+      }
+    });
+    source.start(contextStart, bufferOffset);
+    scheduled.push(entry);
+    nextStartTime = contextEnd;
+    nextSegmentIndex = segmentIndex + 1;
+  };
+
+  const scheduleFrom = (position: number) => {
+    stopSources();
+    nextStartTime = 0;
+    let index = segments.findIndex((_, i) => position < segmentStarts[i + 1]);
+    if (index === -1) {
+      if (isComplete) {
+        finish();
+        return;
+      }
+      // Past the appended audio: wait for the next segment to arrive.
+      nextSegmentIndex = segments.length;
+      pausedAt = duration();
+      return;
+    }
+    scheduleSegment(index, position - segmentStarts[index]);
+    for (index = index + 1; index < segments.length; index++) {
+      scheduleSegment(index, 0);
+    }
+  };
+
+  const play = async () => {
+    if (isPlaying || segments.length === 0) return;
+    context = await getContext();
+    if (isComplete && pausedAt >= duration() - 0.01) {
+      pausedAt = 0;
+    }
+    isPlaying = true;
+    scheduleFrom(pausedAt);
+    notify();
+  };
+
+  const pause = () => {
+    if (!isPlaying) return;
+    pausedAt = getPosition();
+    isPlaying = false;
+    stopSources();
+    notify();
+  };
+
+  const seek = (position: number) => {
+    const target = Math.min(Math.max(0, position), duration());
+    if (isPlaying) {
+      scheduleFrom(target);
+    } else {
+      pausedAt = target;
+    }
+    notify();
+  };
+
+  const setPlaybackRate = (rate: number) => {
+    const position = getPosition();
+    playbackRate = rate;
+    if (isPlaying) {
+      scheduleFrom(position);
+    }
+    notify();
+  };
+
+  const append = (buffer: AudioBuffer) => {
+    segments.push(buffer);
+    segmentStarts.push(segmentStarts[segments.length - 1] + buffer.duration);
+    if (isPlaying && nextSegmentIndex === segments.length - 1) {
+      // Resume from a stall: drop the finished placeholder so the new segment becomes current.
+      if (context && context.currentTime >= nextStartTime) {
+        scheduled = [];
+      }
+      scheduleSegment(segments.length - 1, 0);
+    }
+    notify();
+  };
+
+  const setComplete = (complete: boolean) => {
+    isComplete = complete;
+    if (complete && isPlaying && nextSegmentIndex >= segments.length && context && context.currentTime >= nextStartTime) {
+      finish();
+      return;
+    }
+    notify();
+  };
+
+  const reset = () => {
+    stopSources();
+    segments.length = 0;
+    segmentStarts.length = 1;
+    nextSegmentIndex = 0;
+    nextStartTime = 0;
+    isPlaying = false;
+    isComplete = false;
+    pausedAt = 0;
+    notify();
+  };
+
+  /** Timeline start of every appended segment, in seconds. */
+  const getSegmentStarts = (): number[] => segmentStarts.slice(0, segments.length);
+
+  const subscribe = (listener: (state: PlayerState) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { play, pause, seek, setPlaybackRate, append, setComplete, reset, getState, getPosition, getSegmentStarts, subscribe };
+}
+
+export type SegmentedPlayer = ReturnType<typeof createSegmentedPlayer>;
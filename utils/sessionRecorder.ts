@@ -0,0 +1,130 @@
+import { WavMarker, encodeWav } from './audioUtils';
+
+export type RecordingLayout = 'stereo' | 'tracks';
+
+// Chunks this close to the end of the previous one are treated as contiguous, so timer jitter
+// in continuous speech does not add clicks of silence or drop samples.
+const USER_JITTER_MS = 30;
+
+type UserChunk = {
+  /** Position on the timeline, in samples at the user rate. */
+  offset: number;
+  samples: Int16Array;
+};
+
+type ModelClip = {
+  /** Session time at which the clip starts playing. */
+  startMs: number;
+  samples: Int16Array;
+};
+
+/**
+ * Collects both sides of a live session on one timeline measured from the session start, the
+ * same clock transcript timestamps use. Mic audio arrives as 16 kHz chunks with gaps wherever
+ * push-to-talk, voice gating or mute held it back; model audio arrives as 24 kHz clips at the
+ * time they were scheduled to play.
+ */
+export function createSessionRecorder(userSampleRate: number, modelSampleRate: number) {
+  const userChunks: UserChunk[] = [];
+  // End of the latest user chunk, in samples at the user rate.
+  let userEnd = 0;
+  const modelClips: ModelClip[] = [];
+
+  /**
+   * Places mic audio that finished capturing at `atMs`, leaving silence since the previous chunk.
+   * Audio overlapping what is already recorded is dropped.
+   */
+  const addUserAudio = (pcm: Int16Array, atMs: number) => {
+    const start = Math.round((atMs / 1000) * userSampleRate) - pcm.length;
+    const jitter = Math.round((USER_JITTER_MS / 1000) * userSampleRate);
+    let offset = Math.abs(start - userEnd) <= jitter && userChunks.length > 0 ? userEnd : Math.max(0, start);
+    let samples = pcm;
+    if (offset < userEnd) {
+      samples = pcm.subarray(userEnd - offset);
+      offset = userEnd;
+    }
+    if (samples.length === 0) return;
+    userChunks.push({ offset, samples: samples.slice() });
+    userEnd = offset + samples.length;
+  };
+
+  const addModelAudio = (pcm: Int16Array, startMs: number) => {
+    modelClips.push({ startMs, samples: pcm.slice() });
+  };
+
+  /** Drops model audio that would have played after `atMs`, as it was stopped by an interruption. */
+  const truncateModelAudio = (atMs: number) => {
+    for (let i = modelClips.length - 1; i >= 0; i--) {
+      const clip = modelClips[i];
+      if (clip.startMs >= atMs) {
+        modelClips.splice(i, 1);
+        continue;
+      }
+      const playedSamples = Math.floor(((atMs - clip.startMs) / 1000) * modelSampleRate);
+      if (playedSamples < clip.samples.length) {
+        clip.samples = clip.samples.slice(0, playedSamples);
+      }
+    }
+  };
+
+  const hasAudio = () => userChunks.length > 0 || modelClips.length > 0;
+
+  /** Renders both sides at the model's rate: user audio is linearly resampled onto the same clock. */
+  const render = (): { user: Int16Array; model: Int16Array } => {
+    const rate = modelSampleRate;
+    const userLength = Math.round((userEnd / userSampleRate) * rate);
+    const modelEnd = modelClips.reduce(
+      (end, clip) => Math.max(end, Math.round((clip.startMs / 1000) * rate) + clip.samples.length),
+      0,
+    );
+    const length = Math.max(userLength, modelEnd);
+    const user = new Int16Array(length);
+    const model = new Int16Array(length);
+
+    const userSamples = new Int16Array(userEnd);
+    for (const chunk of userChunks) {
+      userSamples.set(chunk.samples, chunk.offset);
+    }
+    const step = userSampleRate / rate;
+    for (let i = 0; i < userLength; i++) {
+      const position = i * step;
+      const index = Math.floor(position);
+      const next = Math.min(index + 1, userEnd - 1);
+      const fraction = position - index;
+      user[i] = userSamples[index] + (userSamples[next] - userSamples[index]) * fraction;
+    }
+
+    for (const clip of modelClips) {
+      model.set(clip.samples, Math.round((clip.startMs / 1000) * rate));
+    }
+    return { user, model };
+  };
+
+  const toMarkers = (markers: { atMs: number; label: string }[]): WavMarker[] =>
+    markers.map(marker => ({ frame: Math.round((marker.atMs / 1000) * modelSampleRate), label: marker.label }));
+
+  /** One stereo WAV with the user on the left channel and the model on the right. */
+  const toStereoWav = (markers: { atMs: number; label: string }[] = []): Uint8Array => {
+    const { user, model } = render();
+    const interleaved = new Int16Array(user.length * 2);
+    for (let i = 0; i < user.length; i++) {
+      interleaved[i * 2] = user[i];
+      interleaved[i * 2 + 1] = model[i];
+    }
+    return encodeWav(new Uint8Array(interleaved.buffer), modelSampleRate, 2, toMarkers(markers));
+  };
+
+  /** Separate, equally long mono WAVs so the tracks stay aligned when imported side by side. */
+  const toTrackWavs = (markers: { atMs: number; label: string }[] = []): { user: Uint8Array; model: Uint8Array } => {
+    const { user, model } = render();
+    const wavMarkers = toMarkers(markers);
+    return {
+      user: encodeWav(new Uint8Array(user.buffer), modelSampleRate, 1, wavMarkers),
+      model: encodeWav(new Uint8Array(model.buffer), modelSampleRate, 1, wavMarkers),
+    };
+  };
+
+  return { addUserAudio, addModelAudio, truncateModelAudio, hasAudio, toStereoWav, toTrackWavs };
+}
+
+export type SessionRecorder = ReturnType<typeof createSessionRecorder>;
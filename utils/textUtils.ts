@@ -0,0 +1,93 @@
+// Sentence-ending punctuation, optionally followed by closing quotes/brackets, then whitespace;
+// Chinese and Japanese full stops, which take no space, once a character other than a closing
+// quote follows; or a line break, so list items without trailing punctuation are still separate sentences.
+const SENTENCE_BOUNDARY = /[.!?…]+["'”’)\]]*\s+|[。！？]+["'”’）」』)\]]*(?=[^"'”’）」』)\]])\s*|\n+/g;
+// Fragments shorter than this are merged forward so abbreviations like "Dr." don't become their own chunk.
+const MIN_SENTENCE_LENGTH = 24;
+
+export function splitSentences(text: string): string[] {
+  const splitter = createSentenceSplitter();
+  return [...splitter.push(text), ...splitter.flush()];
+}
+
+/**
+ * Incrementally splits streamed text into sentences. `push` returns the sentences completed
+ * by the new delta; `flush` returns whatever remains once the stream has ended.
+ */
+export function createSentenceSplitter() {
+  let buffer = '';
+
+  const push = (delta: string): string[] => {
+    buffer += delta;
+    const sentences: string[] = [];
+    let start = 0;
+    SENTENCE_BOUNDARY.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = SENTENCE_BOUNDARY.exec(buffer)) !== null) {
+      const end = match.index + match[0].length;
+      const sentence = buffer.slice(start, end).trim();
+      if (sentence.length >= MIN_SENTENCE_LENGTH) {
+        sentences.push(sentence);
+        start = end;
+      }
+    }
+    buffer = buffer.slice(start);
+    return sentences;
+  };
+
+  const flush = (): string[] => {
+    const rest = buffer.trim();
+    buffer = '';
+    return rest ? [rest] : [];
+  };
+
+  return { push, flush };
+}
+
+/** Removes a leading list marker ("- ", "* ", "• ", "1. ") so it isn't read aloud. */
+export function stripListMarker(sentence: string): string {
+  return sentence.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '');
+}
+
+/** Formats seconds as m:ss (or h:mm:ss past an hour). */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/** Uses the article's first line as its title when it looks like a headline. */
+export function deriveTitle(articleText: string): string {
+  const firstLine = articleText.trim().split('\n')[0]?.trim() ?? '';
+  if (firstLine && firstLine.length <= 120 && !/[.!?]$/.test(firstLine)) {
+    return firstLine;
+  }
+  return 'News summary';
+}
+
+export type SummaryDocument = {
+  title: string;
+  summary: string;
+  date: Date;
+};
+
+export function summaryToPlainText({ title, summary, date }: SummaryDocument): string {
+  return `${title}\n${date.toLocaleDateString()}\n\n${summary.trim()}\n`;
+}
+
+export function summaryToMarkdown({ title, summary, date }: SummaryDocument): string {
+  return `# ${title}\n\n_${date.toLocaleDateString(undefined, { dateStyle: 'long' })}_\n\n${summary.trim()}\n`;
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
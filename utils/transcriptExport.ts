@@ -0,0 +1,64 @@
+import type { ConversationRecord, TranscriptEntry } from '../services/conversationLibrary';
+
+const SPEAKER_LABELS: Record<TranscriptEntry['speaker'], string> = { user: 'You', model: 'AI', tool: 'Tool' };
+// Subtitle cues need a visible duration even when an entry arrived in a single update.
+const MIN_CUE_MS = 1000;
+
+function formatTimestamp(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+  const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+function cueTimes(entries: TranscriptEntry[], index: number): { start: number; end: number } {
+  const entry = entries[index];
+  const next = entries[index + 1];
+  let end = Math.max(entry.endMs, entry.startMs + MIN_CUE_MS);
+  // Don't overlap the next cue, but never end before starting.
+  if (next) end = Math.max(entry.startMs + 1, Math.min(end, next.startMs));
+  return { start: entry.startMs, end };
+}
+
+const spokenEntries = (entries: TranscriptEntry[]) => entries.filter(entry => entry.text.trim());
+
+export function transcriptToSrt(entries: TranscriptEntry[]): string {
+  const cues = spokenEntries(entries);
+  return cues
+    .map((entry, index) => {
+      const { start, end } = cueTimes(cues, index);
+      return `${index + 1}\n${formatTimestamp(start, ',')} --> ${formatTimestamp(end, ',')}\n${SPEAKER_LABELS[entry.speaker]}: ${entry.text.trim()}\n`;
+    })
+    .join('\n');
+}
+
+export function transcriptToVtt(entries: TranscriptEntry[]): string {
+  const cues = spokenEntries(entries);
+  const body = cues
+    .map((entry, index) => {
+      const { start, end } = cueTimes(cues, index);
+      return `${formatTimestamp(start, '.')} --> ${formatTimestamp(end, '.')}\n<v ${SPEAKER_LABELS[entry.speaker]}>${entry.text.trim()}\n`;
+    })
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
+
+export function conversationToMarkdown(record: ConversationRecord): string {
+  const started = new Date(record.startedAt);
+  const details = [
+    `- Voice: ${record.voice}`,
+    `- Model: ${record.model}`,
+    record.endedAt ? `- Duration: ${Math.round((record.endedAt - record.startedAt) / 1000)}s` : '',
+  ].filter(Boolean);
+  const lines = spokenEntries(record.transcripts).map(
+    entry => `**${SPEAKER_LABELS[entry.speaker]}** _(${formatTimestamp(entry.startMs, '.').slice(0, 8)})_: ${entry.text.trim()}`,
+  );
+  return `# Conversation, ${started.toLocaleString()}\n\n${details.join('\n')}\n\n${lines.join('\n\n')}\n`;
+}
+
+export function conversationToJson(record: ConversationRecord): string {
+  return JSON.stringify(record, null, 2);
+}
@@ -0,0 +1,60 @@
+import type { ToolCallInfo, TranscriptEntry } from '../services/conversationLibrary';
+
+const MAX_TOOL_TEXT_LENGTH = 160;
+
+/**
+ * Merges a streamed transcription delta into the transcript. Deltas extend the last entry while
+ * it belongs to the same speaker and isn't final; otherwise they start a new entry at `atMs`.
+ */
+export function appendTranscription(
+  entries: TranscriptEntry[],
+  speaker: TranscriptEntry['speaker'],
+  text: string,
+  isFinal: boolean,
+  atMs: number,
+): TranscriptEntry[] {
+  const last = entries[entries.length - 1];
+  if (last?.speaker === speaker && !last.isFinal) {
+    const updated = [...entries];
+    updated[entries.length - 1] = { ...last, text: last.text + text, isFinal, endMs: atMs };
+    return updated;
+  }
+  return [...entries, { speaker, text, isFinal, startMs: atMs, endMs: atMs }];
+}
+
+function describeToolCall(tool: ToolCallInfo): string {
+  const args = Object.entries(tool.args)
+    .map(([name, value]) => `${name}: ${JSON.stringify(value)}`)
+    .join(', ');
+  const call = `${tool.name}(${args})`;
+  if (tool.status === 'running') return call;
+  const outcome = tool.status === 'failed'
+    ? `failed: ${String(tool.response?.error ?? 'unknown error')}`
+    : JSON.stringify(tool.response ?? {});
+  const text = `${call} → ${outcome}`;
+  return text.length > MAX_TOOL_TEXT_LENGTH ? `${text.slice(0, MAX_TOOL_TEXT_LENGTH - 1)}…` : text;
+}
+
+/** Adds a running tool call to the transcript. */
+export function appendToolCall(
+  entries: TranscriptEntry[],
+  call: { id: string; name: string; args: Record<string, unknown> },
+  atMs: number,
+): TranscriptEntry[] {
+  const tool: ToolCallInfo = { callId: call.id, name: call.name, args: call.args, status: 'running' };
+  return [...entries, { speaker: 'tool', text: describeToolCall(tool), isFinal: true, startMs: atMs, endMs: atMs, tool }];
+}
+
+/** Records the result of an earlier tool call; a response with an `error` marks it failed. */
+export function completeToolCall(
+  entries: TranscriptEntry[],
+  callId: string,
+  response: Record<string, unknown>,
+  atMs: number,
+): TranscriptEntry[] {
+  return entries.map(entry => {
+    if (entry.tool?.callId !== callId) return entry;
+    const tool: ToolCallInfo = { ...entry.tool, status: 'error' in response ? 'failed' : 'done', response };
+    return { ...entry, text: describeToolCall(tool), endMs: atMs, tool };
+  });
+}
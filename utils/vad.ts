@@ -0,0 +1,125 @@
+/** Root-mean-square level of 16-bit PCM, from 0 (silence) to 1 (full scale). */
+export function measureLevel(pcm: Int16Array): number {
+  if (pcm.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < pcm.length; i++) {
+    const sample = pcm[i] / 32768;
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / pcm.length);
+}
+
+/** Share of adjacent samples that change sign; low for voiced speech, high for hiss. */
+export function zeroCrossingRate(pcm: Int16Array): number {
+  if (pcm.length < 2) return 0;
+  let crossings = 0;
+  for (let i = 1; i < pcm.length; i++) {
+    if ((pcm[i - 1] < 0) !== (pcm[i] < 0)) crossings++;
+  }
+  return crossings / (pcm.length - 1);
+}
+
+/** Maps a level onto a -60..0 dBFS scale for a meter, from 0 to 1. */
+export function levelToMeter(level: number): number {
+  if (level <= 0) return 0;
+  return Math.max(0, Math.min(1, (20 * Math.log10(level) + 60) / 60));
+}
+
+export type VadOptions = {
+  /** Duration of each chunk passed to `process`. */
+  chunkMs: number;
+  /** How far above the tracked noise floor a chunk must be to count as speech. */
+  thresholdRatio?: number;
+  /** Level below which nothing counts as speech, however quiet the room. */
+  minLevel?: number;
+  /** Chunks crossing zero more often than this are treated as noise. */
+  maxZeroCrossingRate?: number;
+  /** Speech must last this long before the gate opens. */
+  onsetMs?: number;
+  /** The gate stays open this long after speech stops, so pauses between words aren't cut. */
+  hangoverMs?: number;
+  /** Audio from just before the onset that is sent along with it, so the first syllable isn't lost. */
+  preRollMs?: number;
+};
+
+export type VadResult = {
+  level: number;
+  /** Whether the gate is open after this chunk. */
+  isSpeech: boolean;
+  /** Chunks to send now: empty while closed, with the pre-roll when it opens. */
+  chunks: Int16Array[];
+};
+
+export type VoiceActivityDetector = {
+  process: (pcm: Int16Array) => VadResult;
+  reset: () => void;
+};
+
+/**
+ * A voice-activity gate based on energy against an adaptive noise floor, plus the zero-crossing
+ * rate to reject broadband noise such as fans and keyboards. The floor follows the level while
+ * the gate is closed, so steady background noise raises the bar for speech.
+ */
+export function createVoiceActivityDetector({
+  chunkMs,
+  thresholdRatio = 3,
+  minLevel = 0.01,
+  maxZeroCrossingRate = 0.45,
+  onsetMs = 200,
+  hangoverMs = 700,
+  preRollMs = 300,
+}: VadOptions): VoiceActivityDetector {
+  const onsetChunks = Math.max(1, Math.round(onsetMs / chunkMs));
+  const hangoverChunks = Math.max(0, Math.round(hangoverMs / chunkMs));
+  const preRollChunks = Math.max(0, Math.round(preRollMs / chunkMs));
+
+  let noiseFloor = minLevel / thresholdRatio;
+  let isOpen = false;
+  let speechRun = 0;
+  let silenceRun = 0;
+  let recent: Int16Array[] = [];
+
+  const reset = () => {
+    noiseFloor = minLevel / thresholdRatio;
+    isOpen = false;
+    speechRun = 0;
+    silenceRun = 0;
+    recent = [];
+  };
+
+  const process = (pcm: Int16Array): VadResult => {
+    const level = measureLevel(pcm);
+    const isSpeechLike = level >= Math.max(minLevel, noiseFloor * thresholdRatio)
+      && zeroCrossingRate(pcm) <= maxZeroCrossingRate;
+
+    if (isOpen) {
+      silenceRun = isSpeechLike ? 0 : silenceRun + 1;
+      if (silenceRun > hangoverChunks) {
+        isOpen = false;
+        speechRun = 0;
+        recent = [pcm];
+        return { level, isSpeech: false, chunks: [] };
+      }
+      return { level, isSpeech: true, chunks: [pcm] };
+    }
+
+    if (!isSpeechLike) {
+      noiseFloor += (level - noiseFloor) * 0.05;
+    }
+    speechRun = isSpeechLike ? speechRun + 1 : 0;
+    recent.push(pcm);
+    // Keep the onset chunks plus the pre-roll before them.
+    if (recent.length > onsetChunks + preRollChunks) recent.shift();
+
+    if (speechRun >= onsetChunks) {
+      isOpen = true;
+      silenceRun = 0;
+      const chunks = recent;
+      recent = [];
+      return { level, isSpeech: true, chunks };
+    }
+    return { level, isSpeech: false, chunks: [] };
+  };
+
+  return { process, reset };
+}
@@ -0,0 +1,83 @@
+export type ZipFile = {
+  /** Path inside the archive, with forward slashes. */
+  name: string;
+  data: Uint8Array;
+};
+
+let crcTable: Uint32Array | null = null;
+
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Packs files into a ZIP archive without compressing them. Audio is already compressed, so
+ * storing keeps this small and fast; any unzip tool or OS file manager can open the result.
+ */
+export function createZip(files: ZipFile[], modified = new Date()): Uint8Array {
+  const encoder = new TextEncoder();
+  const stamp = dosDateTime(modified);
+  const entries = files.map(file => ({ ...file, nameBytes: encoder.encode(file.name), crc: crc32(file.data) }));
+  const localSize = entries.reduce((sum, entry) => sum + 30 + entry.nameBytes.length + entry.data.length, 0);
+  const centralSize = entries.reduce((sum, entry) => sum + 46 + entry.nameBytes.length, 0);
+  const zip = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(zip.buffer);
+
+  // Fields shared by the local header (from its offset 4) and the central header (from offset 6).
+  const writeCommon = (offset: number, entry: (typeof entries)[number]) => {
+    view.setUint16(offset, 20, true); // version needed to extract
+    view.setUint16(offset + 2, 0x0800, true); // names are UTF-8
+    view.setUint16(offset + 4, 0, true); // stored
+    view.setUint16(offset + 6, stamp.time, true);
+    view.setUint16(offset + 8, stamp.date, true);
+    view.setUint32(offset + 10, entry.crc, true);
+    view.setUint32(offset + 14, entry.data.length, true);
+    view.setUint32(offset + 18, entry.data.length, true);
+    view.setUint16(offset + 22, entry.nameBytes.length, true);
+  };
+
+  let offset = 0;
+  const localOffsets = entries.map(entry => {
+    const start = offset;
+    view.setUint32(offset, 0x04034b50, true);
+    writeCommon(offset + 4, entry);
+    zip.set(entry.nameBytes, offset + 30);
+    zip.set(entry.data, offset + 30 + entry.nameBytes.length);
+    offset += 30 + entry.nameBytes.length + entry.data.length;
+    return start;
+  });
+
+  const centralStart = offset;
+  entries.forEach((entry, index) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true); // version made by
+    writeCommon(offset + 6, entry);
+    view.setUint32(offset + 42, localOffsets[index], true);
+    zip.set(entry.nameBytes, offset + 46);
+    offset += 46 + entry.nameBytes.length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, entries.length, true);
+  view.setUint16(offset + 10, entries.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, centralStart, true);
+  return zip;
+}
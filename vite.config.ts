@@ -1,9 +1,13 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
+    // A key inlined into a deployed bundle can be read by anyone who loads the page, so it is only
+    // used by the dev server, and never by tests. Built apps ask for a key at runtime or use the proxy.
+    const devApiKey = command === 'serve' && mode !== 'test' ? env.GEMINI_API_KEY ?? '' : '';
     return {
       server: {
         port: 3000,
@@ -11,13 +15,20 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(devApiKey),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.GEMINI_PROXY_URL': JSON.stringify(env.GEMINI_PROXY_URL),
+        'process.env.ARTICLE_PROXY_URL': JSON.stringify(env.ARTICLE_PROXY_URL)
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        environment: 'jsdom',
+        include: ['tests/**/*.test.{ts,tsx}'],
+        setupFiles: ['tests/setup.ts'],
       }
     };
 });
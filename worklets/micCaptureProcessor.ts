@@ -0,0 +1,71 @@
+// Runs on the audio rendering thread. Resamples the microphone from the device rate to the
+// target rate, converts to clamped 16-bit PCM and posts fixed-size chunks to the main thread.
+
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare class AudioWorkletProcessor {
+    readonly port: MessagePort;
+    constructor(options?: { processorOptions?: unknown });
+}
+
+export type MicCaptureProcessorOptions = {
+    targetSampleRate: number;
+    /** Samples per posted chunk, at the target rate. */
+    chunkSamples: number;
+};
+
+class MicCaptureProcessor extends AudioWorkletProcessor {
+    private readonly ratio: number;
+    private readonly chunk: Int16Array;
+    private chunkLength = 0;
+    // Box-filter decimator state: input samples are averaged over each output sample's span.
+    private accumulator = 0;
+    private accumulated = 0;
+    private inputIndex = 0;
+    private nextBoundary: number;
+
+    constructor(options: { processorOptions: MicCaptureProcessorOptions }) {
+        super(options);
+        const { targetSampleRate, chunkSamples } = options.processorOptions;
+        this.ratio = sampleRate / targetSampleRate;
+        this.nextBoundary = this.ratio;
+        this.chunk = new Int16Array(chunkSamples);
+    }
+
+    private emit(sample: number) {
+        const clamped = Math.max(-1, Math.min(1, sample));
+        this.chunk[this.chunkLength++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+        if (this.chunkLength === this.chunk.length) {
+            const out = this.chunk.slice();
+            this.port.postMessage(out, [out.buffer]);
+            this.chunkLength = 0;
+        }
+    }
+
+    process(inputs: Float32Array[][]): boolean {
+        const channel = inputs[0]?.[0];
+        if (!channel) return true;
+
+        for (let i = 0; i < channel.length; i++) {
+            this.accumulator += channel[i];
+            this.accumulated++;
+            this.inputIndex++;
+            // When upsampling, one input sample can cover several output samples.
+            while (this.inputIndex >= this.nextBoundary) {
+                this.emit(this.accumulator / this.accumulated);
+                if (this.ratio >= 1) {
+                    this.accumulator = 0;
+                    this.accumulated = 0;
+                }
+                this.nextBoundary += this.ratio;
+            }
+            if (this.ratio < 1) {
+                this.accumulator = 0;
+                this.accumulated = 0;
+            }
+        }
+        return true;
+    }
+}
+
+registerProcessor('mic-capture-processor', MicCaptureProcessor);